@@ -0,0 +1,54 @@
+import { getByPath, setByPath } from './path';
+import type { ComputedField, ComputedFields } from './types';
+
+type Entries<TValues extends Record<string, unknown>> = Array<
+  [string, ComputedField<TValues, unknown> | undefined]
+>;
+
+/**
+ * computed のフィールドを計算した値を返す。prev を渡すと、deps が prev から変わったフィールド
+ * （と、外から値が書き換えられたフィールド）だけを計算し直す
+ */
+export function applyComputed<TValues extends Record<string, unknown>>(
+  values: TValues,
+  computed: ComputedFields<TValues> | undefined,
+  prev?: TValues
+): TValues {
+  if (!computed) return values;
+
+  const get = (obj: TValues, path: string) =>
+    getByPath(obj as Record<string, unknown>, path) as unknown;
+
+  // 書いた順に計算するので、前の computed の結果が変わっていれば後ろの deps の変化として扱われる
+  return (Object.entries(computed) as Entries<TValues>).reduce((result, [path, field]) => {
+    if (!field) return result;
+    const unchanged =
+      prev !== undefined &&
+      Object.is(get(prev, path), get(values, path)) &&
+      field.deps.every((dep) => Object.is(get(prev, dep), get(result, dep)));
+    if (unchanged) return result;
+
+    const value = field.compute(result);
+    return Object.is(value, get(result, path))
+      ? result
+      : (setByPath(result as Record<string, unknown>, path, value as never) as TValues);
+  }, values);
+}
+
+/**
+ * prev から next で計算し直された値が変わった computed のパス（検証し直すため）
+ */
+export function changedComputedPaths<TValues extends Record<string, unknown>>(
+  prev: TValues,
+  next: TValues,
+  computed: ComputedFields<TValues> | undefined
+): string[] {
+  if (!computed) return [];
+  return Object.keys(computed).filter(
+    (path) =>
+      !Object.is(
+        getByPath(prev as Record<string, unknown>, path),
+        getByPath(next as Record<string, unknown>, path)
+      )
+  );
+}
@@ -0,0 +1,69 @@
+import type { FieldCondition, FieldConditions } from './types';
+
+const resolveCondition = <TValues>(
+  condition: boolean | ((values: TValues) => boolean) | undefined,
+  values: TValues
+) => (typeof condition === 'function' ? condition(values) : condition === true);
+
+/**
+ * disabled / hidden / when によって今は使われていないフィールドのパスを集める
+ */
+export function getInactivePaths<TValues extends Record<string, unknown>>(
+  values: TValues,
+  fields: FieldConditions<TValues> | undefined
+): string[] {
+  if (!fields) return [];
+  return (Object.entries(fields) as Array<[string, FieldCondition<TValues> | undefined]>)
+    .filter(([, condition]) => {
+      if (!condition) return false;
+      return (
+        resolveCondition(condition.disabled, values) ||
+        resolveCondition(condition.hidden, values) ||
+        (condition.when !== undefined && !condition.when(values))
+      );
+    })
+    .map(([path]) => path);
+}
+
+/**
+ * path 自身か、その親のフィールドが使われていないか
+ */
+export function isInactivePath(path: string, inactivePaths: ReadonlyArray<string>): boolean {
+  return inactivePaths.some((inactive) => path === inactive || path.startsWith(`${inactive}.`));
+}
+
+/**
+ * 使われていないフィールドを取り除いた値（onValid / バリデーションに渡す）
+ */
+export function omitInactive<TValues extends Record<string, unknown>>(
+  values: TValues,
+  inactivePaths: ReadonlyArray<string>
+): TValues {
+  return inactivePaths.reduce((result, path) => omitPath(result, path.split('.')), values);
+}
+
+function omitPath<T>(obj: T, [head, ...rest]: string[]): T {
+  if (obj == null || typeof obj !== 'object' || !(head in obj)) return obj;
+
+  const copy = (Array.isArray(obj) ? [...obj] : { ...obj }) as Record<string, unknown>;
+  if (rest.length) copy[head] = omitPath(copy[head], rest);
+  else delete copy[head];
+  return copy as T;
+}
+
+/**
+ * path 自身か、その親のフィールドが disabled か（registerInput の disabled 属性に使う）
+ */
+export function isDisabledPath<TValues extends Record<string, unknown>>(
+  path: string,
+  values: TValues,
+  fields: FieldConditions<TValues> | undefined
+): boolean {
+  const segments = path.split('.');
+  return segments.some((_, index) => {
+    const condition = (fields as Partial<Record<string, FieldCondition<TValues>>> | undefined)?.[
+      segments.slice(0, index + 1).join('.')
+    ];
+    return resolveCondition(condition?.disabled, values);
+  });
+}
@@ -0,0 +1,1858 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFormStore } from './createFormStore';
+import { createLoggerPlugin } from './loggerPlugin';
+import type { StandardSchemaIssue, StandardSchemaV1 } from './standardSchema';
+import type { FormEvent, FormPlugin, Validators } from './types';
+
+// テスト用の最小限の Standard Schema 実装
+function createSchema<TInput>(
+  check: (value: TInput) => StandardSchemaIssue[],
+  { async = false } = {}
+): StandardSchemaV1<TInput> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) => {
+        const issues = check(value as TInput);
+        const result = issues.length ? { issues } : { value: value as TInput };
+        return async ? Promise.resolve(result) : result;
+      },
+    },
+  };
+}
+
+// React / DOM なしで動くことを確認するため node 環境で実行する
+describe('createFormStore', () => {
+  describe('getState / subscribe', () => {
+    it('defaultValuesで初期化される', () => {
+      const store = createFormStore({ defaultValues: { username: '', age: 0 } });
+
+      expect(store.getState()).toEqual({
+        values: { username: '', age: 0 },
+        errors: {},
+        errorDetails: {},
+        touched: {},
+        dirtyFields: {},
+        isDirty: false,
+        isValidating: {},
+        inputDrafts: {},
+        isLoading: false,
+        loadError: undefined,
+        isSubmitting: false,
+        submitCount: 0,
+        isSubmitted: false,
+        isSubmitSuccessful: false,
+        submitError: undefined,
+        canUndo: false,
+        canRedo: false,
+      });
+    });
+
+    it('変更のたびに購読者へ通知し、解除後は通知しない', () => {
+      const store = createFormStore({ defaultValues: { username: '' } });
+      const listener = vi.fn();
+
+      const unsubscribe = store.subscribe(listener);
+      store.setValue('username', 'john');
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      unsubscribe();
+      store.setValue('username', 'jane');
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(store.getState().values.username).toBe('jane');
+    });
+
+    it('状態はイミュータブルに更新される', () => {
+      const store = createFormStore({ defaultValues: { username: '' } });
+      const before = store.getState();
+
+      store.setValue('username', 'john');
+
+      expect(store.getState()).not.toBe(before);
+      expect(before.values.username).toBe('');
+    });
+  });
+
+  describe('操作', () => {
+    const validators: Validators<{ username: string }> = {
+      username: (value) => (value.length > 0 ? null : 'Required'),
+    };
+
+    it('registerのonBlurでtouchedとerrorsが更新される', () => {
+      const store = createFormStore({ defaultValues: { username: '' }, validators });
+
+      store.register('username').onBlur();
+
+      expect(store.getState().touched).toEqual({ username: true });
+      expect(store.getState().errors).toEqual({ username: 'Required' });
+    });
+
+    it('handleSubmitはバリデーション成功時のみonValidを呼ぶ', async () => {
+      const store = createFormStore({ defaultValues: { username: '' }, validators });
+      const onValid = vi.fn();
+
+      await store.handleSubmit(onValid)();
+      expect(onValid).not.toHaveBeenCalled();
+
+      store.setValue('username', 'john');
+      await store.handleSubmit(onValid)();
+      expect(onValid).toHaveBeenCalledWith({ username: 'john' });
+      expect(store.getState().isSubmitting).toBe(false);
+    });
+
+    it('resetで値・errors・touchedが初期化される', () => {
+      const store = createFormStore({ defaultValues: { username: '' }, validators });
+
+      store.register('username').onBlur();
+      store.setValue('username', 'john');
+      store.reset();
+
+      expect(store.getState()).toMatchObject({
+        values: { username: '' },
+        errors: {},
+        touched: {},
+      });
+    });
+
+    it('setOptionsで差し替えたvalidatorsが使われる', async () => {
+      const store = createFormStore({ defaultValues: { username: '' }, validators });
+
+      store.setOptions({
+        defaultValues: { username: '' },
+        validators: { username: () => 'Replaced' },
+      });
+
+      expect(await store.validateAll()).toBe(false);
+      expect(store.getState().errors).toEqual({ username: 'Replaced' });
+    });
+
+    it('cancelValidationsで実行中の非同期バリデーションを中断する', async () => {
+      const signals: AbortSignal[] = [];
+      const store = createFormStore({
+        defaultValues: { username: '' },
+        validators: {
+          username: (_value, _values, { signal }) => {
+            signals.push(signal);
+            return new Promise<null>(() => {});
+          },
+        },
+      });
+
+      void store.validateField('username');
+      expect(store.getState().isValidating).toEqual({ username: true });
+
+      store.cancelValidations();
+
+      expect(signals[0].aborted).toBe(true);
+      expect(store.getState().isValidating).toEqual({});
+    });
+
+    it('非同期バリデーションのエラーを反映してからisValidatingを外す', async () => {
+      const store = createFormStore({
+        defaultValues: { username: '' },
+        validators: { username: async () => 'Taken' },
+      });
+      const snapshots: Array<[boolean, string | undefined]> = [];
+      store.subscribe(() => {
+        const { isValidating, errors } = store.getState();
+        snapshots.push([!!isValidating.username, errors.username]);
+      });
+
+      await store.validateField('username');
+
+      expect(snapshots).toEqual([
+        [true, undefined],
+        [true, 'Taken'],
+        [false, 'Taken'],
+      ]);
+
+      store.clearErrors();
+      snapshots.length = 0;
+      await store.validateAll();
+
+      expect(snapshots).toEqual([
+        [true, undefined],
+        [true, 'Taken'],
+        [false, 'Taken'],
+      ]);
+    });
+
+    it('バリデータが投げた例外はフィールドのエラーになる', async () => {
+      const store = createFormStore({
+        defaultValues: { username: '', email: '' },
+        mode: 'onChange',
+        validators: {
+          username: () => Promise.reject(new Error('Network error')),
+          email: () => {
+            throw new Error('Unexpected');
+          },
+        },
+      });
+      const onValid = vi.fn();
+
+      store.register('username').onChange('john');
+      await vi.waitFor(() => expect(store.getState().isValidating).toEqual({}));
+      expect(store.getState().errorDetails).toEqual({
+        username: [{ type: 'validate', message: 'Network error' }],
+      });
+
+      await expect(store.handleSubmit(onValid)()).resolves.toBeUndefined();
+      expect(onValid).not.toHaveBeenCalled();
+      expect(store.getState()).toMatchObject({
+        errors: { username: 'Network error', email: 'Unexpected' },
+        isSubmitting: false,
+      });
+    });
+  });
+
+  describe('resolver', () => {
+    type SignupForm = { email: string; profile: { age: number } };
+
+    const schema = createSchema<SignupForm>((value) => [
+      ...(value.email.includes('@') ? [] : [{ message: 'Invalid email', path: ['email'] }]),
+      ...(value.profile.age >= 18
+        ? []
+        : [{ message: 'Must be 18+', path: [{ key: 'profile' }, { key: 'age' }] }]),
+    ]);
+
+    it('issueをパスごとのerrorsに変換する', async () => {
+      const store = createFormStore({
+        defaultValues: { email: '', profile: { age: 0 } },
+        resolver: schema,
+      });
+
+      expect(await store.validateAll()).toBe(false);
+      expect(store.getState().errors).toEqual({
+        email: 'Invalid email',
+        'profile.age': 'Must be 18+',
+      });
+
+      store.setValue('profile.age', 20);
+      expect(await store.validateField('profile.age')).toBe(true);
+      expect(store.getState().errors).toEqual({ email: 'Invalid email' });
+    });
+
+    it('非同期のスキーマもawaitする', async () => {
+      const store = createFormStore({
+        defaultValues: { email: 'john@example.com', profile: { age: 0 } },
+        resolver: createSchema<SignupForm>(
+          (value) =>
+            value.profile.age >= 18 ? [] : [{ message: 'Must be 18+', path: ['profile', 'age'] }],
+          { async: true }
+        ),
+      });
+
+      expect(await store.validateField('profile.age')).toBe(false);
+      expect(store.getState().errors).toEqual({ 'profile.age': 'Must be 18+' });
+    });
+
+    it('同じフィールドではvalidatorsのエラーが優先される', async () => {
+      const store = createFormStore({
+        defaultValues: { email: '', profile: { age: 20 } },
+        resolver: schema,
+        validators: {
+          email: (value) => (value ? null : 'Email is required'),
+          'profile.age': (value) => (value > 100 ? 'Too old' : null),
+        },
+      });
+
+      expect(await store.validateAll()).toBe(false);
+      expect(store.getState().errors).toEqual({ email: 'Email is required' });
+
+      store.setValue('email', 'john');
+      expect(await store.validateField('email')).toBe(false);
+      // validator が通ればスキーマのエラーが出る
+      expect(store.getState().errors).toEqual({ email: 'Invalid email' });
+    });
+
+    it('パスのないissueはrootに入る', async () => {
+      const store = createFormStore({
+        defaultValues: { email: 'john@example.com', profile: { age: 20 } },
+        resolver: createSchema<SignupForm>(() => [{ message: 'Something went wrong' }]),
+      });
+
+      expect(await store.validateAll()).toBe(false);
+      expect(store.getState().errors).toEqual({ root: 'Something went wrong' });
+    });
+  });
+
+  describe('mode / reValidateMode', () => {
+    const validators: Validators<{ username: string }> = {
+      username: (value) => (value.length >= 3 ? null : 'Too short'),
+    };
+
+    it('デフォルトはblurで検証し、送信後は入力のたびに再検証する', async () => {
+      const store = createFormStore({ defaultValues: { username: '' }, validators });
+
+      store.register('username').onChange('a');
+      expect(store.getState().errors).toEqual({});
+
+      store.register('username').onBlur();
+      expect(store.getState().errors).toEqual({ username: 'Too short' });
+
+      await store.handleSubmit(() => {})();
+      store.register('username').onChange('abc');
+      expect(store.getState().errors).toEqual({});
+    });
+
+    it('onChangeは入力のたびに検証し、blurでは検証しない', () => {
+      const store = createFormStore({
+        defaultValues: { username: 'abc' },
+        validators,
+        mode: 'onChange',
+      });
+
+      store.register('username').onChange('a');
+      expect(store.getState().errors).toEqual({ username: 'Too short' });
+
+      store.setValue('username', 'abc');
+      store.register('username').onBlur();
+      // blurでは再検証されないので古いエラーが残る
+      expect(store.getState().errors).toEqual({ username: 'Too short' });
+    });
+
+    it('onSubmitは送信まで検証せず、送信後はreValidateModeに従う', async () => {
+      const store = createFormStore({
+        defaultValues: { username: '' },
+        validators,
+        mode: 'onSubmit',
+        reValidateMode: 'onBlur',
+      });
+
+      store.register('username').onChange('a');
+      store.register('username').onBlur();
+      expect(store.getState().errors).toEqual({});
+
+      await store.handleSubmit(() => {})();
+      expect(store.getState().errors).toEqual({ username: 'Too short' });
+
+      store.register('username').onChange('abc');
+      expect(store.getState().errors).toEqual({ username: 'Too short' });
+      store.register('username').onBlur();
+      expect(store.getState().errors).toEqual({});
+    });
+
+    it('onTouchedは最初のblurまで入力で検証しない', () => {
+      const store = createFormStore({
+        defaultValues: { username: '' },
+        validators,
+        mode: 'onTouched',
+      });
+
+      store.register('username').onChange('a');
+      expect(store.getState().errors).toEqual({});
+
+      store.register('username').onBlur();
+      expect(store.getState().errors).toEqual({ username: 'Too short' });
+
+      store.register('username').onChange('abc');
+      expect(store.getState().errors).toEqual({});
+    });
+
+    it('allは入力とblurの両方で検証する', () => {
+      const store = createFormStore({ defaultValues: { username: '' }, validators, mode: 'all' });
+
+      store.register('username').onChange('a');
+      expect(store.getState().errors).toEqual({ username: 'Too short' });
+
+      store.setValue('username', 'abc');
+      store.register('username').onBlur();
+      expect(store.getState().errors).toEqual({});
+    });
+
+    it('resetすると送信前のmodeに戻る', async () => {
+      const store = createFormStore({
+        defaultValues: { username: '' },
+        validators,
+        mode: 'onSubmit',
+      });
+
+      await store.handleSubmit(() => {})();
+      store.reset();
+
+      store.register('username').onChange('a');
+      expect(store.getState().errors).toEqual({});
+    });
+  });
+
+  describe('dirty', () => {
+    type ProfileForm = {
+      name: string;
+      birthday: Date;
+      tags: string[];
+      address: { city: string; zip: string };
+    };
+
+    const defaultValues: ProfileForm = {
+      name: 'john',
+      birthday: new Date('2000-01-01'),
+      tags: ['a'],
+      address: { city: 'Tokyo', zip: '100-0001' },
+    };
+
+    it('defaultValuesと異なるフィールドをdirtyFieldsに記録する', () => {
+      const store = createFormStore({ defaultValues });
+
+      store.setValue('address.city', 'Osaka');
+      expect(store.getState().dirtyFields).toEqual({ 'address.city': true });
+      expect(store.getState().isDirty).toBe(true);
+
+      store.setValue('address.city', 'Tokyo');
+      expect(store.getState().dirtyFields).toEqual({});
+      expect(store.getState().isDirty).toBe(false);
+    });
+
+    it('Date・配列は参照ではなく中身で比較する', () => {
+      const store = createFormStore({ defaultValues });
+
+      store.setValue('birthday', new Date('2000-01-01'));
+      store.setValue('tags', ['a']);
+      store.setValue('address', { city: 'Tokyo', zip: '100-0001' });
+      expect(store.getState().isDirty).toBe(false);
+
+      store.setValue('tags', ['a', 'b']);
+      expect(store.getState().dirtyFields).toEqual({ tags: true });
+    });
+
+    it('isEqualでフィールドごとの比較方法を差し替えられる', () => {
+      const store = createFormStore({
+        defaultValues,
+        isEqual: {
+          name: (a, b) => a.toLowerCase() === b.toLowerCase(),
+          address: (a, b) => a.zip === b.zip,
+        },
+      });
+
+      store.setValue('name', 'JOHN');
+      store.setValue('address.city', 'Osaka');
+      expect(store.getState().isDirty).toBe(false);
+
+      store.setValue('address.zip', '530-0001');
+      expect(store.getState().dirtyFields).toEqual({ address: true });
+    });
+
+    it('getDirtyValuesは変更されたフィールドだけを返す', () => {
+      const store = createFormStore({ defaultValues });
+
+      store.setValue('name', 'jane');
+      store.setValue('address.zip', '530-0001');
+
+      expect(store.getDirtyValues()).toEqual({ name: 'jane', address: { zip: '530-0001' } });
+    });
+
+    it('resetした値が新しい基準になる', () => {
+      const store = createFormStore({ defaultValues });
+
+      store.reset({ ...defaultValues, name: 'jane' });
+      expect(store.getState().isDirty).toBe(false);
+
+      store.setValue('name', 'john');
+      expect(store.getState().dirtyFields).toEqual({ name: true });
+    });
+  });
+
+  describe('validate（フォーム全体のルール）', () => {
+    type BookingForm = { startDate: string; endDate: string; email: string; phone: string };
+
+    const defaultValues: BookingForm = {
+      startDate: '2026-05-10',
+      endDate: '2026-05-01',
+      email: '',
+      phone: '',
+    };
+
+    const validate = (values: BookingForm) => ({
+      ...(values.startDate > values.endDate && {
+        startDate: 'Must be before the end date',
+        endDate: 'Must be after the start date',
+      }),
+      ...(!values.email && !values.phone && { root: 'At least one contact method is required' }),
+    });
+
+    it('複数のフィールドとrootにエラーを設定する', async () => {
+      const store = createFormStore({ defaultValues, validate });
+
+      expect(await store.validateAll()).toBe(false);
+      expect(store.getState().errors).toEqual({
+        startDate: 'Must be before the end date',
+        endDate: 'Must be after the start date',
+        root: 'At least one contact method is required',
+      });
+
+      store.setValue('endDate', '2026-05-20');
+      store.setValue('phone', '090-0000-0000');
+      expect(await store.validateAll()).toBe(true);
+      expect(store.getState().errors).toEqual({});
+    });
+
+    it('validatorsの結果とマージし、同じフィールドではvalidatorsを優先する', async () => {
+      const store = createFormStore({
+        defaultValues,
+        validate,
+        validators: {
+          email: (value) => (value ? null : 'Email is required'),
+          endDate: () => 'Invalid date',
+        },
+      });
+
+      await store.validateAll();
+      expect(store.getState().errors).toEqual({
+        startDate: 'Must be before the end date',
+        endDate: 'Invalid date',
+        email: 'Email is required',
+        root: 'At least one contact method is required',
+      });
+    });
+
+    it('validateFieldでもそのフィールドのエラーを残す', async () => {
+      const store = createFormStore({ defaultValues, validate });
+
+      expect(await store.validateField('endDate')).toBe(false);
+      expect(store.getState().errors).toEqual({ endDate: 'Must be after the start date' });
+    });
+
+    it('handleSubmitはフォーム全体のルールに違反するとonValidを呼ばない', async () => {
+      const store = createFormStore({
+        defaultValues: { ...defaultValues, endDate: '2026-05-20' },
+        validate,
+      });
+      const onValid = vi.fn();
+
+      await store.handleSubmit(onValid)();
+
+      expect(onValid).not.toHaveBeenCalled();
+      expect(store.getState().errors).toEqual({ root: 'At least one contact method is required' });
+    });
+
+    it('validateやresolverが投げた例外はrootのエラーになる', async () => {
+      const store = createFormStore({
+        defaultValues,
+        mode: 'onChange',
+        validate: () => Promise.reject(new Error('Unexpected')),
+      });
+      const onValid = vi.fn();
+
+      store.register('email').onChange('john@example.com');
+      await expect(store.validateField('email')).resolves.toBe(true);
+
+      await expect(store.handleSubmit(onValid)()).resolves.toBeUndefined();
+      expect(onValid).not.toHaveBeenCalled();
+      expect(store.getState()).toMatchObject({
+        errorDetails: { root: [{ type: 'validate', message: 'Unexpected' }] },
+        isSubmitting: false,
+      });
+
+      const schemaStore = createFormStore({
+        defaultValues,
+        resolver: createSchema<BookingForm>(() => {
+          throw new Error('Schema failed');
+        }),
+      });
+      expect(await schemaStore.validateAll()).toBe(false);
+      expect(schemaStore.getState().errors).toEqual({ root: 'Schema failed' });
+    });
+  });
+
+  describe('構造化エラー', () => {
+    const passwordRules = (value: string) => [
+      value.length >= 8 ? null : { type: 'minLength', params: { min: 8 } },
+      /[0-9]/.test(value) ? null : { type: 'pattern', message: 'Must contain a number' },
+    ].filter((error) => error !== null);
+
+    it('文字列のエラーはtype "validate"としてerrorDetailsに入る', async () => {
+      const store = createFormStore({
+        defaultValues: { username: '' },
+        validators: { username: (value) => (value ? null : 'Required') },
+      });
+
+      await store.validateField('username');
+
+      expect(store.getState().errorDetails).toEqual({
+        username: [{ type: 'validate', message: 'Required' }],
+      });
+      expect(store.getState().errors).toEqual({ username: 'Required' });
+    });
+
+    it('デフォルトでは最初のエラーだけを残す', async () => {
+      const store = createFormStore({
+        defaultValues: { password: 'abc' },
+        validators: { password: passwordRules },
+        messages: { minLength: 'At least {min} characters' },
+      });
+
+      await store.validateAll();
+
+      expect(store.getState().errorDetails).toEqual({
+        password: [{ type: 'minLength', message: 'At least 8 characters', params: { min: 8 } }],
+      });
+      expect(store.getState().errors).toEqual({ password: 'At least 8 characters' });
+    });
+
+    it("criteriaMode: 'all'では失敗したルールをすべて残す", async () => {
+      const store = createFormStore({
+        defaultValues: { password: 'abc' },
+        validators: { password: passwordRules },
+        criteriaMode: 'all',
+      });
+
+      await store.validateField('password');
+
+      expect(store.getState().errorDetails.password?.map((error) => error.type)).toEqual([
+        'minLength',
+        'pattern',
+      ]);
+      // messages を指定しなければ既定の表示文字列を使う
+      expect(store.getState().errors).toEqual({ password: 'Must be at least 8 long' });
+    });
+
+    it('messagesにも既定の表示文字列にもないtypeはtype自体をmessageにする', async () => {
+      const store = createFormStore({
+        defaultValues: { username: 'admin' },
+        validators: { username: () => ({ type: 'reserved' }) },
+      });
+
+      await store.validateField('username');
+
+      expect(store.getState().errors).toEqual({ username: 'reserved' });
+    });
+
+    it('messagesは関数でも指定でき、localeで数値を整形する', async () => {
+      const store = createFormStore({
+        defaultValues: { price: 0 },
+        validators: {
+          price: (value) => (value >= 1000 ? null : { type: 'min', params: { min: 1000 } }),
+        },
+        locale: 'de-DE',
+        messages: {
+          min: ({ min }, locale) => `>= ${(min as number).toLocaleString(locale)}`,
+        },
+      });
+
+      await store.validateField('price');
+      expect(store.getState().errors).toEqual({ price: '>= 1.000' });
+
+      store.setOptions({
+        defaultValues: { price: 0 },
+        validators: {
+          price: (value) => (value >= 1000 ? null : { type: 'min', params: { min: 1000 } }),
+        },
+        locale: 'de-DE',
+        messages: { min: 'Mindestens {min}' },
+      });
+      await store.validateField('price');
+      expect(store.getState().errors).toEqual({ price: 'Mindestens 1.000' });
+    });
+
+    it("criteriaMode: 'all'ではvalidatorsとresolverのエラーをまとめる", async () => {
+      const store = createFormStore({
+        defaultValues: { username: '' },
+        validators: { username: () => ({ type: 'taken' }) },
+        resolver: createSchema<{ username: string }>(() => [
+          { message: 'Too short', path: ['username'] },
+        ]),
+        criteriaMode: 'all',
+      });
+
+      await store.validateAll();
+
+      expect(store.getState().errorDetails).toEqual({
+        username: [
+          { type: 'taken', message: 'taken' },
+          { type: 'schema', message: 'Too short' },
+        ],
+      });
+    });
+  });
+
+  describe('setError / clearErrors', () => {
+    type SignupForm = { email: string; password: string };
+    const defaultValues: SignupForm = { email: '', password: '' };
+
+    it('フィールドとrootにエラーを設定し、指定したものだけ消せる', () => {
+      const store = createFormStore({ defaultValues });
+
+      store.setError('email', 'Already registered');
+      store.setError('password', { type: 'weak', message: 'Too weak' });
+      store.setError('root', 'Server is busy');
+      expect(store.getState().errors).toEqual({
+        email: 'Already registered',
+        password: 'Too weak',
+        root: 'Server is busy',
+      });
+      expect(store.getState().errorDetails.email).toEqual([
+        { type: 'validate', message: 'Already registered' },
+      ]);
+
+      store.clearErrors(['email', 'root']);
+      expect(store.getState().errors).toEqual({ password: 'Too weak' });
+
+      store.clearErrors();
+      expect(store.getState().errors).toEqual({});
+    });
+
+    it('実行中の非同期バリデーションの結果で上書きされない', async () => {
+      const store = createFormStore({
+        defaultValues,
+        validators: { email: () => Promise.resolve(null) },
+      });
+
+      const pending = store.validateField('email');
+      store.setError('email', 'Already registered');
+      await pending;
+
+      expect(store.getState().errors).toEqual({ email: 'Already registered' });
+    });
+
+    it('onValidが返したエラーをフォームに反映する', async () => {
+      const store = createFormStore({ defaultValues });
+
+      await store.handleSubmit(async () => ({ email: 'Already registered', root: 'Try again' }))();
+
+      expect(store.getState().errors).toEqual({ email: 'Already registered', root: 'Try again' });
+      expect(store.getState().errorDetails.email).toEqual([
+        { type: 'server', message: 'Already registered' },
+      ]);
+      expect(store.getState().isSubmitting).toBe(false);
+    });
+
+    it('onValidが投げたエラーオブジェクトも反映する', async () => {
+      const store = createFormStore({ defaultValues });
+
+      await store.handleSubmit(async () => {
+        throw { password: 'Too weak' };
+      })();
+
+      expect(store.getState().errors).toEqual({ password: 'Too weak' });
+      expect(store.getState().submitError).toBeUndefined();
+    });
+
+    it('検証に失敗するとonInvalidにエラーを渡す', async () => {
+      const store = createFormStore({
+        defaultValues,
+        validators: { email: (value) => (value ? null : 'Required') },
+      });
+      const onValid = vi.fn();
+      const onInvalid = vi.fn();
+
+      await store.handleSubmit(onValid, onInvalid)();
+
+      expect(onValid).not.toHaveBeenCalled();
+      expect(onInvalid).toHaveBeenCalledWith({ email: 'Required' });
+    });
+
+    it('サーバーのエラーは次にそのフィールドを検証したときに消える', async () => {
+      const store = createFormStore({ defaultValues });
+
+      await store.handleSubmit(() => ({ email: 'Already registered' }))();
+      store.register('email').onChange('new@example.com');
+
+      expect(store.getState().errors).toEqual({});
+    });
+  });
+
+  describe('送信の状態', () => {
+    type SignupForm = { email: string };
+    const validators: Validators<SignupForm> = {
+      email: (value) => (value ? null : 'Required'),
+    };
+
+    it('送信のたびにsubmitCountを数え、成功したかを記録する', async () => {
+      const store = createFormStore({ defaultValues: { email: '' }, validators });
+
+      await store.handleSubmit(vi.fn())();
+      expect(store.getState()).toMatchObject({
+        submitCount: 1,
+        isSubmitted: true,
+        isSubmitSuccessful: false,
+      });
+
+      store.setValue('email', 'john@example.com');
+      await store.handleSubmit(vi.fn())();
+      expect(store.getState()).toMatchObject({
+        submitCount: 2,
+        isSubmitted: true,
+        isSubmitSuccessful: true,
+      });
+    });
+
+    it('onValidが例外を投げるとsubmitErrorに残し、次の送信で消す', async () => {
+      const store = createFormStore({ defaultValues: { email: 'john@example.com' } });
+      const failure = new Error('Network error');
+
+      await store.handleSubmit(async () => {
+        throw failure;
+      })();
+      expect(store.getState()).toMatchObject({
+        isSubmitting: false,
+        isSubmitSuccessful: false,
+        submitError: failure,
+      });
+
+      await store.handleSubmit(vi.fn())();
+      expect(store.getState().submitError).toBeUndefined();
+      expect(store.getState().isSubmitSuccessful).toBe(true);
+    });
+
+    it('onValidがエラーを返した送信は成功として扱わない', async () => {
+      const store = createFormStore({ defaultValues: { email: 'john@example.com' } });
+
+      await store.handleSubmit(() => ({ email: 'Already registered' }))();
+
+      expect(store.getState().isSubmitSuccessful).toBe(false);
+      expect(store.getState().submitError).toBeUndefined();
+    });
+
+    it('preventDoubleSubmitなら送信中の呼び出しを無視する', async () => {
+      const store = createFormStore({
+        defaultValues: { email: 'john@example.com' },
+        preventDoubleSubmit: true,
+      });
+      let resolve = () => {};
+      const onValid = vi.fn(() => new Promise<void>((r) => (resolve = r)));
+
+      const first = store.handleSubmit(onValid)();
+      await vi.waitFor(() => expect(onValid).toHaveBeenCalledTimes(1));
+      await store.handleSubmit(onValid)();
+      resolve();
+      await first;
+
+      expect(onValid).toHaveBeenCalledTimes(1);
+      expect(store.getState().submitCount).toBe(1);
+    });
+
+    it('resetで送信の状態を消し、送信中のresetの後は結果を残さない', async () => {
+      const store = createFormStore({ defaultValues: { email: 'john@example.com' } });
+
+      await store.handleSubmit(vi.fn())();
+      store.reset();
+      expect(store.getState()).toMatchObject({
+        submitCount: 0,
+        isSubmitted: false,
+        isSubmitSuccessful: false,
+      });
+
+      await store.handleSubmit(() => store.reset())();
+      expect(store.getState()).toMatchObject({
+        submitCount: 0,
+        isSubmitted: false,
+        isSubmitting: false,
+      });
+    });
+  });
+
+  describe('registerInput', () => {
+    type ProfileForm = {
+      name: string;
+      age: number;
+      birthday: Date;
+      newsletter: boolean;
+      plan: 'free' | 'pro';
+    };
+    const defaultValues: ProfileForm = {
+      name: '',
+      age: 20,
+      birthday: new Date(2000, 0, 31),
+      newsletter: false,
+      plan: 'free',
+    };
+
+    it('整形すると変わる入力は値を更新しつつ入力のまま表示する', async () => {
+      const store = createFormStore({ defaultValues });
+
+      store.registerInput('age', { as: 'number' }).onChange({ target: { value: '1.' } });
+      expect(store.getState()).toMatchObject({ values: { age: 1 }, inputDrafts: { age: '1.' } });
+      expect(store.registerInput('age', { as: 'number' }).value).toBe('1.');
+      // エラーではないので送信は妨げない
+      expect(await store.validateAll()).toBe(true);
+
+      store.setValue('age', 30);
+      expect(store.getState().inputDrafts).toEqual({});
+      expect(store.registerInput('age', { as: 'number' }).value).toBe('30');
+    });
+
+    it('イベントから値を取り出し、表示用の文字列に整形する', () => {
+      const store = createFormStore({ defaultValues });
+
+      store.registerInput('name').onChange({ target: { value: 'John' } });
+      store.registerInput('plan', { as: 'select' }).onChange({ target: { value: 'pro' } });
+      store.registerInput('newsletter', { as: 'checkbox' }).onChange({ target: { checked: true } });
+
+      expect(store.getState().values).toMatchObject({ name: 'John', plan: 'pro', newsletter: true });
+      expect(store.registerInput('age', { as: 'number' }).value).toBe('20');
+      expect(store.registerInput('birthday', { as: 'date' }).value).toBe('2000-01-31');
+      expect(store.registerInput('newsletter', { as: 'checkbox' })).toMatchObject({
+        type: 'checkbox',
+        checked: true,
+      });
+    });
+
+    it('数値と日付を変換する', () => {
+      const store = createFormStore({ defaultValues });
+
+      store.registerInput('age', { as: 'number' }).onChange({ target: { value: '42' } });
+      store.registerInput('birthday', { as: 'date' }).onChange({ target: { value: '1990-05-01' } });
+
+      expect(store.getState().values.age).toBe(42);
+      expect(store.getState().values.birthday).toEqual(new Date(1990, 4, 1));
+    });
+
+    it('parseできない入力は値を変えずにフィールドのエラーにし、入力中の文字列を表示する', () => {
+      const store = createFormStore({ defaultValues, mode: 'onChange' });
+
+      store.registerInput('age', { as: 'number' }).onChange({ target: { value: 'abc' } });
+
+      expect(store.getState().values.age).toBe(20);
+      expect(store.getState().errorDetails.age).toEqual([
+        { type: 'invalidNumber', message: 'Must be a number' },
+      ]);
+      expect(store.registerInput('age', { as: 'number' }).value).toBe('abc');
+
+      store.registerInput('age', { as: 'number' }).onChange({ target: { value: '30' } });
+      expect(store.getState().values.age).toBe(30);
+      expect(store.getState().errors).toEqual({});
+      expect(store.registerInput('age', { as: 'number' }).value).toBe('30');
+    });
+
+    it('カスタムのparse / formatを使い、parseのエラーは送信を止める', async () => {
+      const store = createFormStore({
+        defaultValues: { tags: ['a'] },
+        messages: { tags: 'At most {max} tags' },
+      });
+      const tagsInput = {
+        parse: (input: string) => {
+          const tags = input.split(',').map((tag) => tag.trim());
+          return tags.length <= 2 ? { value: tags } : { error: { type: 'tags', params: { max: 2 } } };
+        },
+        format: (tags: string[]) => tags.join(', '),
+      };
+      const onValid = vi.fn();
+
+      store.registerInput('tags', tagsInput).onChange({ target: { value: 'a, b, c' } });
+      // デフォルトの mode（onBlur）では blur まで表示しない
+      expect(store.getState().errors).toEqual({});
+
+      await store.handleSubmit(onValid)();
+      expect(onValid).not.toHaveBeenCalled();
+      expect(store.getState().errors).toEqual({ tags: 'At most 2 tags' });
+
+      store.registerInput('tags', tagsInput).onChange({ target: { value: 'a, b' } });
+      expect(store.registerInput('tags', tagsInput).value).toBe('a, b');
+      await store.handleSubmit(onValid)();
+      expect(onValid).toHaveBeenCalledWith({ tags: ['a', 'b'] });
+    });
+
+    it('resetで入力中の文字列を捨てる', () => {
+      const store = createFormStore({ defaultValues });
+
+      store.registerInput('age', { as: 'number' }).onChange({ target: { value: '' } });
+      store.reset();
+
+      expect(store.registerInput('age', { as: 'number' }).value).toBe('20');
+    });
+  });
+
+  describe('persist', () => {
+    type SignupForm = { email: string; password: string; profile: { name: string; age: number } };
+    const defaultValues: SignupForm = { email: '', password: '', profile: { name: '', age: 0 } };
+
+    function createMemoryStorage(initial: Record<string, string> = {}) {
+      const items = new Map(Object.entries(initial));
+      return {
+        items,
+        getItem: vi.fn((key: string) => items.get(key) ?? null),
+        setItem: vi.fn((key: string, value: string) => void items.set(key, value)),
+        removeItem: vi.fn((key: string) => void items.delete(key)),
+      };
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('入力をdebounceして保存し、excludeしたフィールドは保存しない', () => {
+      const storage = createMemoryStorage();
+      const store = createFormStore({
+        defaultValues,
+        persist: { key: 'signup', storage, debounce: 500, exclude: ['password'] },
+      });
+
+      store.setValue('email', 'j');
+      store.setValue('email', 'john@example.com');
+      store.setValue('password', 'secret');
+      vi.advanceTimersByTime(499);
+      expect(storage.setItem).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(storage.setItem).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(storage.items.get('signup')!)).toEqual({
+        version: 0,
+        values: { email: 'john@example.com', profile: { name: '', age: 0 } },
+      });
+    });
+
+    it('hydrateで下書きをdefaultValuesに重ねる', async () => {
+      const storage = createMemoryStorage({
+        signup: JSON.stringify({
+          version: 0,
+          values: { email: 'john@example.com', profile: { name: 'John' } },
+        }),
+      });
+      const store = createFormStore({ defaultValues, persist: { key: 'signup', storage } });
+
+      await store.hydrate();
+
+      expect(store.getState().values).toEqual({
+        email: 'john@example.com',
+        password: '',
+        profile: { name: 'John', age: 0 },
+      });
+      expect(store.getState().dirtyFields).toEqual({ email: true, 'profile.name': true });
+    });
+
+    it('非同期のストレージから読み込み、その間に入力されていたら反映しない', async () => {
+      const storage = createMemoryStorage({
+        signup: JSON.stringify({ version: 0, values: { email: 'draft@example.com' } }),
+      });
+      const asyncStorage = { ...storage, getItem: async (key: string) => storage.getItem(key) };
+      const store = createFormStore({
+        defaultValues,
+        persist: { key: 'signup', storage: asyncStorage },
+      });
+
+      await store.hydrate();
+      expect(store.getState().values.email).toBe('draft@example.com');
+
+      const pending = store.hydrate();
+      store.setValue('email', 'typed@example.com');
+      await pending;
+      expect(store.getState().values.email).toBe('typed@example.com');
+    });
+
+    it('非同期のdefaultValuesを読み込んでから下書きを重ねる', async () => {
+      const storage = createMemoryStorage({
+        profile: JSON.stringify({ version: 0, values: { email: 'draft@example.com' } }),
+      });
+      const store = createFormStore({
+        defaultValues: async () => ({ name: 'John', email: 'john@example.com' }),
+        persist: { key: 'profile', storage },
+      });
+
+      await store.hydrate();
+
+      expect(store.getState()).toMatchObject({
+        values: { name: 'John', email: 'draft@example.com' },
+        dirtyFields: { email: true },
+      });
+    });
+
+    it('バージョンが違う下書きはmigrateで変換し、変換できなければ捨てる', async () => {
+      const stale = JSON.stringify({ version: 1, values: { mail: 'john@example.com' } });
+      const storage = createMemoryStorage({ signup: stale });
+      const migrate = vi.fn((values: unknown, version: number) =>
+        version === 1 ? { email: (values as { mail: string }).mail } : null
+      );
+      const store = createFormStore({
+        defaultValues,
+        persist: { key: 'signup', storage, version: 2, migrate },
+      });
+
+      await store.hydrate();
+      expect(migrate).toHaveBeenCalledWith({ mail: 'john@example.com' }, 1);
+      expect(store.getState().values.email).toBe('john@example.com');
+
+      store.reset();
+      storage.items.set('signup', JSON.stringify({ version: 0, values: { email: 'old' } }));
+      await store.hydrate();
+      expect(store.getState().values.email).toBe('');
+      expect(storage.items.has('signup')).toBe(false);
+    });
+
+    it('送信の成功とresetで下書きを消す', async () => {
+      const storage = createMemoryStorage();
+      const store = createFormStore({ defaultValues, persist: { key: 'signup', storage } });
+
+      store.setValue('email', 'john@example.com');
+      vi.runAllTimers();
+      expect(storage.items.has('signup')).toBe(true);
+
+      await store.handleSubmit(vi.fn())();
+      expect(storage.items.has('signup')).toBe(false);
+
+      store.setValue('email', 'jane@example.com');
+      store.reset();
+      vi.runAllTimers();
+      expect(storage.items.has('signup')).toBe(false);
+    });
+
+    it('保存に失敗しても入力は続けられる', () => {
+      const storage = createMemoryStorage();
+      storage.setItem.mockImplementation(() => {
+        throw new Error('QuotaExceededError');
+      });
+      const store = createFormStore({ defaultValues, persist: { key: 'signup', storage } });
+
+      store.setValue('email', 'john@example.com');
+      expect(() => vi.runAllTimers()).not.toThrow();
+      expect(store.getState().values.email).toBe('john@example.com');
+    });
+  });
+
+  describe('history', () => {
+    type ArticleForm = { title: string; body: string };
+    const defaultValues: ArticleForm = { title: '', body: '' };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('historyを指定しなければ記録しない', () => {
+      const store = createFormStore({ defaultValues });
+
+      store.setValue('title', 'Hello');
+      store.undo();
+
+      expect(store.getState().values.title).toBe('Hello');
+      expect(store.getState().canUndo).toBe(false);
+    });
+
+    it('値の変更をundo / redoできる', () => {
+      const store = createFormStore({ defaultValues, history: true });
+
+      store.setValue('title', 'Hello');
+      store.setValue('body', 'World');
+      expect(store.getState()).toMatchObject({ canUndo: true, canRedo: false });
+
+      store.undo();
+      expect(store.getState().values).toEqual({ title: 'Hello', body: '' });
+      store.undo();
+      expect(store.getState().values).toEqual(defaultValues);
+      expect(store.getState()).toMatchObject({ canUndo: false, canRedo: true, isDirty: false });
+
+      store.redo();
+      expect(store.getState().values).toEqual({ title: 'Hello', body: '' });
+
+      // 新しい変更をしたら redo できなくなる
+      store.setValue('body', 'Again');
+      expect(store.getState().canRedo).toBe(false);
+    });
+
+    it('同じフィールドへの連続した入力を1つの履歴にまとめる', () => {
+      const store = createFormStore({ defaultValues, history: { mergeWindow: 1000 } });
+      const title = () => store.register('title');
+
+      title().onChange('H');
+      vi.advanceTimersByTime(500);
+      title().onChange('He');
+      vi.advanceTimersByTime(500);
+      title().onChange('Hey');
+      vi.advanceTimersByTime(1001);
+      title().onChange('Hey!');
+
+      store.undo();
+      expect(store.getState().values.title).toBe('Hey');
+      store.undo();
+      expect(store.getState().values.title).toBe('');
+    });
+
+    it('limitを超えた古い履歴は捨てる', () => {
+      const store = createFormStore({ defaultValues, history: { limit: 2, mergeWindow: 0 } });
+
+      ['a', 'b', 'c'].forEach((title) => {
+        store.setValue('title', title);
+        vi.advanceTimersByTime(1);
+      });
+      store.undo();
+      store.undo();
+
+      expect(store.getState().values.title).toBe('a');
+      expect(store.getState().canUndo).toBe(false);
+    });
+
+    it('undoでその時点のtouchedとエラーに戻す', () => {
+      const store = createFormStore({
+        defaultValues,
+        history: true,
+        validators: { title: (value) => (value.length > 3 ? 'Too long' : null) },
+        mode: 'onChange',
+      });
+
+      store.register('title').onBlur();
+      store.register('body').onChange('Draft');
+      store.register('title').onChange('Long title');
+      expect(store.getState().errors).toEqual({ title: 'Too long' });
+
+      store.undo();
+      expect(store.getState().errors).toEqual({});
+      expect(store.getState().touched).toEqual({ title: true });
+    });
+
+    it('resetで履歴を消す', () => {
+      const store = createFormStore({ defaultValues, history: true });
+
+      store.setValue('title', 'Hello');
+      store.reset();
+
+      expect(store.getState()).toMatchObject({ canUndo: false, canRedo: false });
+    });
+  });
+
+  describe('fields（条件付きのフィールド）', () => {
+    type AccountForm =
+      | { accountType: 'personal'; name: string }
+      | { accountType: 'business'; name: string; companyName: string; vatId: string };
+    const defaultValues: AccountForm = {
+      accountType: 'business',
+      name: '',
+      companyName: '',
+      vatId: '',
+    };
+    const validators: Validators<AccountForm> = {
+      name: (value) => (value ? null : 'Required'),
+      companyName: (value) => (value ? null : 'Required'),
+    };
+    const fields = {
+      companyName: { when: (values: AccountForm) => values.accountType === 'business' },
+      vatId: { hidden: (values: AccountForm) => values.accountType !== 'business' },
+    };
+
+    it('使われていないフィールドは検証せず、onValidに渡さない', async () => {
+      const store = createFormStore<AccountForm>({ defaultValues, validators, fields });
+      const onValid = vi.fn();
+
+      store.setValue('accountType', 'personal');
+      store.setValue('name', 'John');
+      await store.handleSubmit(onValid)();
+
+      expect(store.getState().errors).toEqual({});
+      expect(onValid).toHaveBeenCalledWith({ accountType: 'personal', name: 'John' });
+    });
+
+    it('条件を満たしている間は通常どおり検証する', async () => {
+      const store = createFormStore<AccountForm>({ defaultValues, validators, fields });
+      const onValid = vi.fn();
+
+      await store.handleSubmit(onValid)();
+
+      expect(onValid).not.toHaveBeenCalled();
+      expect(store.getState().errors).toEqual({ name: 'Required', companyName: 'Required' });
+    });
+
+    it('使われなくなったフィールドのエラーを消し、validateFieldでも検証しない', async () => {
+      const store = createFormStore<AccountForm>({ defaultValues, validators, fields });
+
+      await store.validateAll();
+      store.setValue('accountType', 'personal');
+
+      expect(store.getState().errors).toEqual({ name: 'Required' });
+      expect(await store.validateField('companyName')).toBe(true);
+      expect(store.getState().errors).toEqual({ name: 'Required' });
+    });
+
+    it('resolverとvalidateには使われているフィールドだけを渡す', async () => {
+      const schema = createSchema<AccountForm>((values) =>
+        'companyName' in values && !values.companyName
+          ? [{ message: 'Company is required', path: ['companyName'] }]
+          : []
+      );
+      const validate = vi.fn(() => ({}));
+      const store = createFormStore<AccountForm>({
+        defaultValues: { ...defaultValues, accountType: 'personal' },
+        resolver: schema,
+        validate,
+        fields,
+      });
+
+      expect(await store.validateAll()).toBe(true);
+      expect(validate).toHaveBeenCalledWith({ accountType: 'personal', name: '' });
+    });
+
+    it('disabledなフィールドは配下のフィールドも含めて取り除き、registerInputにdisabledを渡す', async () => {
+      const store = createFormStore({
+        defaultValues: { email: 'john@example.com', billing: { street: '', city: '' } },
+        validators: { 'billing.city': (value) => (value ? null : 'Required') },
+        fields: { billing: { disabled: true } },
+      });
+      const onValid = vi.fn();
+
+      await store.handleSubmit(onValid)();
+
+      expect(onValid).toHaveBeenCalledWith({ email: 'john@example.com' });
+      expect(store.registerInput('billing.city').disabled).toBe(true);
+      expect(store.registerInput('email').disabled).toBe(false);
+    });
+  });
+
+  describe('フォーカス', () => {
+    type ContactForm = { name: string; email: string; message: string };
+    const defaultValues: ContactForm = { name: '', email: '', message: '' };
+    const validators: Validators<ContactForm> = {
+      name: (value) => (value ? null : 'Required'),
+      email: (value) => (value ? null : 'Required'),
+      message: (value) => (value ? null : 'Required'),
+    };
+
+    // position: DOM 上の順番（compareDocumentPosition の代わり）
+    function createElement(position: number) {
+      const element = {
+        position,
+        focus: vi.fn(),
+        scrollIntoView: vi.fn(),
+        compareDocumentPosition: (other: unknown) =>
+          (other as { position: number }).position > position ? 4 : 2,
+      };
+      return element;
+    }
+
+    it('送信時の検証に失敗したら、DOMの順で最初のエラーのフィールドにフォーカスする', async () => {
+      const store = createFormStore({ defaultValues, validators });
+      const name = createElement(0);
+      const email = createElement(1);
+      const message = createElement(2);
+      // 登録順と DOM の順は一致しないことがある
+      store.register('message').ref(message);
+      store.register('email').ref(email);
+      store.register('name').ref(name);
+      store.setValue('name', 'John');
+
+      await store.handleSubmit(vi.fn())();
+
+      expect(email.focus).toHaveBeenCalledTimes(1);
+      expect(email.scrollIntoView).not.toHaveBeenCalled();
+      expect(message.focus).not.toHaveBeenCalled();
+    });
+
+    it('scrollを指定するとスクロールしてからフォーカスする', async () => {
+      const store = createFormStore({
+        defaultValues,
+        validators,
+        shouldFocusError: { scroll: { behavior: 'smooth' } },
+      });
+      const name = createElement(0);
+      store.register('name').ref(name);
+
+      await store.handleSubmit(vi.fn())();
+
+      expect(name.scrollIntoView).toHaveBeenCalledWith({ behavior: 'smooth' });
+      expect(name.focus).toHaveBeenCalledWith({ preventScroll: true });
+    });
+
+    it('shouldFocusError: falseならフォーカスしない', async () => {
+      const store = createFormStore({ defaultValues, validators, shouldFocusError: false });
+      const name = createElement(0);
+      store.register('name').ref(name);
+
+      await store.handleSubmit(vi.fn())();
+
+      expect(name.focus).not.toHaveBeenCalled();
+    });
+
+    it('サーバーから返されたエラーのフィールドにもフォーカスする', async () => {
+      const store = createFormStore({ defaultValues });
+      const email = createElement(1);
+      store.registerInput('email').ref(email);
+
+      await store.handleSubmit(() => ({ email: 'Already registered' }))();
+
+      expect(email.focus).toHaveBeenCalledTimes(1);
+    });
+
+    it('setFocusで指定したフィールドにフォーカスし、refにnullが渡されたら忘れる', () => {
+      const store = createFormStore({ defaultValues });
+      const email = createElement(1);
+      const { ref } = store.register('email');
+
+      ref(email);
+      store.setFocus('email', { scroll: true });
+      expect(email.scrollIntoView).toHaveBeenCalledWith({ block: 'center' });
+      expect(email.focus).toHaveBeenCalledTimes(1);
+
+      // ref は毎回同じ関数なので、再レンダーで付け替えられない
+      expect(store.register('email').ref).toBe(ref);
+      ref(null);
+      store.setFocus('email');
+      expect(email.focus).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('plugins', () => {
+    type SignupForm = { email: string; age: number };
+    const defaultValues: SignupForm = { email: '', age: 0 };
+
+    function createRecorder() {
+      const events: Array<FormEvent<SignupForm>> = [];
+      const plugin: FormPlugin<SignupForm> = { onEvent: (event) => void events.push(event) };
+      return { events, plugin, types: () => events.map((event) => event.type) };
+    }
+
+    it('change / blur / validate / resetを通知する', async () => {
+      const recorder = createRecorder();
+      const store = createFormStore({
+        defaultValues,
+        validators: { email: (value) => (value ? null : 'Required') },
+        plugins: [recorder.plugin],
+      });
+
+      store.register('email').onChange('john@example.com');
+      store.register('email').onBlur();
+      store.reset();
+
+      expect(recorder.events).toEqual([
+        { type: 'change', name: 'email', value: 'john@example.com' },
+        { type: 'blur', name: 'email' },
+        { type: 'validate', name: 'email', valid: true, errors: {} },
+        { type: 'reset', values: defaultValues },
+      ]);
+    });
+
+    it('送信の開始・成功・失敗を通知する', async () => {
+      const recorder = createRecorder();
+      const store = createFormStore({
+        defaultValues,
+        validators: { email: (value) => (value ? null : 'Required') },
+        plugins: [recorder.plugin],
+      });
+
+      await store.handleSubmit(vi.fn())();
+      expect(recorder.events.slice(-3)).toEqual([
+        { type: 'submitStart', values: defaultValues },
+        {
+          type: 'validate',
+          name: null,
+          valid: false,
+          errors: { email: [{ type: 'validate', message: 'Required' }] },
+        },
+        { type: 'submitFailure', errors: { email: 'Required' }, error: undefined },
+      ]);
+
+      store.setValue('email', 'john@example.com');
+      await store.handleSubmit(vi.fn())();
+      expect(recorder.events[recorder.events.length - 1]).toEqual({
+        type: 'submitSuccess',
+        values: { email: 'john@example.com', age: 0 },
+      });
+
+      const failure = new Error('Network error');
+      await store.handleSubmit(() => Promise.reject(failure))();
+      expect(recorder.events[recorder.events.length - 1]).toEqual({
+        type: 'submitFailure',
+        errors: {},
+        error: failure,
+      });
+    });
+
+    it('beforeChangeで値を差し替えたり、変更を取り消したりできる', () => {
+      const trim: FormPlugin<SignupForm> = {
+        beforeChange: (change) =>
+          change.name === 'email' ? { ...change, value: change.value.trim() } : undefined,
+      };
+      const noNegativeAge: FormPlugin<SignupForm> = {
+        beforeChange: (change) => !(change.name === 'age' && change.value < 0) && undefined,
+      };
+      const recorder = createRecorder();
+      const store = createFormStore({
+        defaultValues,
+        plugins: [trim, noNegativeAge, recorder.plugin],
+      });
+
+      store.setValue('email', '  john@example.com ');
+      store.setValue('age', -1);
+
+      expect(store.getState().values).toEqual({ email: 'john@example.com', age: 0 });
+      expect(recorder.events).toEqual([
+        { type: 'change', name: 'email', value: 'john@example.com' },
+      ]);
+    });
+
+    it('createLoggerPluginはイベントと状態を出力する', () => {
+      const logger = { log: vi.fn() };
+      const store = createFormStore({
+        defaultValues,
+        plugins: [createLoggerPlugin({ label: 'signup', logger, events: ['change'] })],
+      });
+
+      store.setValue('age', 20);
+      store.register('age').onBlur();
+
+      expect(logger.log).toHaveBeenCalledTimes(1);
+      expect(logger.log).toHaveBeenCalledWith(
+        '[signup] change',
+        { name: 'age', value: 20 },
+        expect.objectContaining({ values: { email: '', age: 20 } })
+      );
+    });
+  });
+
+  describe('transform（送信する値の変換）', () => {
+    type ProfileInput = { name: string; age: string };
+    type Profile = { name: string; age: number };
+
+    it('transformした値をonValidに渡す', async () => {
+      const onValid = vi.fn();
+      const store = createFormStore({
+        defaultValues: { name: ' John ', age: '20' },
+        transform: (values): Profile => ({ name: values.name.trim(), age: Number(values.age) }),
+      });
+
+      await store.handleSubmit(onValid)();
+
+      expect(onValid).toHaveBeenCalledWith({ name: 'John', age: 20 });
+      // フォームの値は入力のまま
+      expect(store.getState().values).toEqual({ name: ' John ', age: '20' });
+    });
+
+    it('transformがなければresolverの出力をonValidに渡す', async () => {
+      const schema: StandardSchemaV1<ProfileInput, Profile> = {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: (value) => {
+            const input = value as ProfileInput;
+            const age = Number(input.age);
+            return Number.isNaN(age)
+              ? { issues: [{ message: 'Invalid age', path: ['age'] }] }
+              : { value: { name: input.name, age } };
+          },
+        },
+      };
+      const onValid = vi.fn();
+      const store = createFormStore({ defaultValues: { name: 'John', age: 'x' }, resolver: schema });
+
+      await store.handleSubmit(onValid)();
+      expect(onValid).not.toHaveBeenCalled();
+
+      store.setValue('age', '20');
+      await store.handleSubmit(onValid)();
+      expect(onValid).toHaveBeenCalledWith({ name: 'John', age: 20 });
+    });
+
+    it('検証を通らなければtransformを呼ばない', async () => {
+      const transform = vi.fn((values: ProfileInput) => ({ ...values, age: Number(values.age) }));
+      const store = createFormStore({
+        defaultValues: { name: '', age: '' },
+        validators: { name: (value) => (value ? null : 'Required') },
+        transform,
+      });
+
+      await store.handleSubmit(vi.fn())();
+
+      expect(transform).not.toHaveBeenCalled();
+      expect(store.getState().errors).toEqual({ name: 'Required' });
+    });
+
+    it('transformの例外はsubmitErrorに残す', async () => {
+      const failure = new Error('Cannot transform');
+      const onValid = vi.fn();
+      const store = createFormStore({
+        defaultValues: { name: '', age: '' },
+        transform: (): Profile => {
+          throw failure;
+        },
+      });
+
+      await store.handleSubmit(onValid)();
+
+      expect(onValid).not.toHaveBeenCalled();
+      expect(store.getState()).toMatchObject({ isSubmitSuccessful: false, submitError: failure });
+    });
+  });
+
+  describe('reset / resetField', () => {
+    type ProfileForm = { name: string; email: string; address: { city: string; zip: string } };
+
+    const defaultValues: ProfileForm = {
+      name: '',
+      email: '',
+      address: { city: '', zip: '' },
+    };
+    const validators: Validators<ProfileForm> = {
+      name: (value) => (value ? null : 'Required'),
+      'address.zip': (value) => (/^\d{3}-\d{4}$/.test(value) ? null : 'Invalid zip'),
+    };
+
+    function createEditedStore() {
+      const store = createFormStore({ defaultValues, validators });
+      store.setValue('email', 'john@example.com');
+      store.register('name').onBlur();
+      store.register('address.zip').onBlur();
+      return store;
+    }
+
+    it('resetのオプションでエラー・touched・dirtyを残せる', () => {
+      const store = createEditedStore();
+
+      store.reset({ ...defaultValues, name: 'John' }, { keepErrors: true, keepTouched: true });
+      expect(store.getState()).toMatchObject({
+        values: { name: 'John' },
+        errors: { name: 'Required', 'address.zip': 'Invalid zip' },
+        touched: { name: true, 'address.zip': true },
+        dirtyFields: {},
+      });
+
+      const edited = createEditedStore();
+      edited.reset(undefined, { keepDirty: true });
+      expect(edited.getState()).toMatchObject({
+        values: defaultValues,
+        errors: {},
+        touched: {},
+        dirtyFields: { email: true },
+        isDirty: true,
+      });
+
+      // 次の変更で計算し直す
+      edited.setValue('name', 'John');
+      expect(edited.getState().dirtyFields).toEqual({ name: true });
+    });
+
+    it('keepDefaultValuesではdirtyの基準を変えない', () => {
+      const store = createFormStore({ defaultValues });
+
+      store.reset({ ...defaultValues, name: 'John' }, { keepDefaultValues: true });
+      expect(store.getState()).toMatchObject({ dirtyFields: { name: true }, isDirty: true });
+
+      store.reset();
+      expect(store.getState()).toMatchObject({ values: defaultValues, isDirty: false });
+    });
+
+    it('resetFieldは1つのフィールドの値と状態だけを戻す', () => {
+      const store = createEditedStore();
+      store.setValue('address.zip', '1');
+
+      store.resetField('address.zip');
+      expect(store.getState()).toMatchObject({
+        values: { email: 'john@example.com', address: { zip: '' } },
+        errors: { name: 'Required' },
+        touched: { name: true },
+        dirtyFields: { email: true },
+      });
+
+      // 親のパスを指定すると配下のフィールドもまとめて戻す
+      store.setValue('address.city', 'Osaka');
+      store.register('address.city').onBlur();
+      store.resetField('address');
+      expect(store.getState()).toMatchObject({
+        values: { address: { city: '', zip: '' } },
+        touched: { name: true },
+        dirtyFields: { email: true },
+      });
+    });
+
+    it('resetFieldのdefaultValueは新しい初期値になる', () => {
+      const store = createFormStore({ defaultValues });
+      store.setValue('name', 'John');
+
+      store.resetField('name', { defaultValue: 'Jane' });
+      expect(store.getState()).toMatchObject({ values: { name: 'Jane' }, isDirty: false });
+
+      store.setValue('name', 'John');
+      expect(store.getState().dirtyFields).toEqual({ name: true });
+      store.reset(store.getState().values, { keepDefaultValues: true });
+      expect(store.getState().dirtyFields).toEqual({ name: true });
+    });
+
+    it('resetFieldのdefaultValueはreset()で戻す値にもなる', () => {
+      const store = createFormStore({ defaultValues });
+
+      store.resetField('name', { defaultValue: 'Jane' });
+      store.resetField('address', { defaultValue: { city: 'Osaka', zip: '' } });
+      store.setValue('name', 'John');
+      store.setValue('address.city', 'Tokyo');
+
+      store.reset();
+      expect(store.getState()).toMatchObject({
+        values: { name: 'Jane', email: '', address: { city: 'Osaka', zip: '' } },
+        isDirty: false,
+      });
+    });
+  });
+
+  describe('defaultValues（非同期）', () => {
+    type ProfileForm = { name: string; email: string };
+
+    it('読み込みが終わるまでisLoadingがtrueになり、読み込んだ値が基準になる', async () => {
+      let resolve!: (values: ProfileForm) => void;
+      const load = vi.fn(() => new Promise<ProfileForm>((r) => (resolve = r)));
+      const store = createFormStore({ defaultValues: load });
+
+      expect(store.getState()).toMatchObject({ values: {}, isLoading: true });
+
+      const hydrating = store.hydrate();
+      void store.hydrate();
+      resolve({ name: 'John', email: 'john@example.com' });
+      await hydrating;
+
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(store.getState()).toMatchObject({
+        values: { name: 'John', email: 'john@example.com' },
+        isLoading: false,
+        isDirty: false,
+      });
+
+      store.setValue('name', 'Jane');
+      store.reset();
+      expect(store.getState().values).toEqual({ name: 'John', email: 'john@example.com' });
+    });
+
+    it('読み込みに失敗したらisLoadingをfalseにして例外を投げる', async () => {
+      const failure = new Error('Not found');
+      const store = createFormStore<ProfileForm>({ defaultValues: () => Promise.reject(failure) });
+
+      await expect(store.hydrate()).rejects.toBe(failure);
+      expect(store.getState()).toMatchObject({ isLoading: false, loadError: failure });
+    });
+
+    it('読み込み中は検証・送信せず、その間に編集したフィールドは読み込んだ値で上書きしない', async () => {
+      let resolve!: (values: ProfileForm) => void;
+      const nameValidator = vi.fn((value: string) => (value.length ? null : 'Required'));
+      const onValid = vi.fn();
+      const store = createFormStore({
+        defaultValues: () => new Promise<ProfileForm>((r) => (resolve = r)),
+        validators: { name: nameValidator },
+      });
+      const hydrating = store.hydrate();
+
+      expect(await store.validateAll()).toBe(false);
+      await store.handleSubmit(onValid)();
+      expect(nameValidator).not.toHaveBeenCalled();
+      expect(onValid).not.toHaveBeenCalled();
+      expect(store.getState()).toMatchObject({ errors: {}, submitCount: 0 });
+
+      store.setValue('name', 'Jane');
+      resolve({ name: 'John', email: 'john@example.com' });
+      await hydrating;
+
+      expect(store.getState()).toMatchObject({
+        values: { name: 'Jane', email: 'john@example.com' },
+        dirtyFields: { name: true },
+        isLoading: false,
+      });
+      store.reset();
+      expect(store.getState().values).toEqual({ name: 'John', email: 'john@example.com' });
+    });
+
+    it('読み込み中のresetは、値を渡したときだけ読み込んだ値より優先する', async () => {
+      const loaded: ProfileForm = { name: 'John', email: 'john@example.com' };
+
+      const store = createFormStore<ProfileForm>({ defaultValues: async () => loaded });
+      const hydrating = store.hydrate();
+      store.reset();
+      await hydrating;
+      expect(store.getState()).toMatchObject({ values: loaded, isLoading: false });
+
+      const resetStore = createFormStore<ProfileForm>({ defaultValues: async () => loaded });
+      const resetHydrating = resetStore.hydrate();
+      resetStore.reset({ name: 'Jane', email: '' }, { keepDefaultValues: true });
+      await resetHydrating;
+      expect(resetStore.getState()).toMatchObject({
+        values: { name: 'Jane', email: '' },
+        dirtyFields: { name: true, email: true },
+        isLoading: false,
+      });
+    });
+  });
+
+  describe('computed（計算するフィールド）', () => {
+    type QuoteForm = {
+      quantity: number;
+      unitPrice: number;
+      discount: number;
+      readonly subtotal: number;
+      readonly total: number;
+      note: string;
+    };
+
+    const defaultValues: QuoteForm = {
+      quantity: 1,
+      unitPrice: 100,
+      discount: 0,
+      subtotal: 0,
+      total: 0,
+      note: '',
+    };
+
+    function createQuoteStore(options: { mode?: 'onBlur' | 'onChange' } = {}) {
+      const computeSubtotal = vi.fn((values: QuoteForm) => values.quantity * values.unitPrice);
+      const store = createFormStore({
+        defaultValues,
+        ...options,
+        computed: {
+          subtotal: { deps: ['quantity', 'unitPrice'], compute: computeSubtotal },
+          // 前の computed の結果を deps にできる
+          total: {
+            deps: ['subtotal', 'discount'],
+            compute: (values) => values.subtotal - values.discount,
+          },
+        },
+        validators: { total: (value) => (value > 1000 ? 'Too expensive' : null) },
+      });
+      return { store, computeSubtotal };
+    }
+
+    it('初期値とdepsが変わったときに計算される', () => {
+      const { store, computeSubtotal } = createQuoteStore();
+      expect(store.getState()).toMatchObject({
+        values: { subtotal: 100, total: 100 },
+        isDirty: false,
+      });
+
+      store.setValue('quantity', 3);
+      store.setValue('discount', 50);
+      expect(store.getState().values).toMatchObject({ subtotal: 300, total: 250 });
+      // 計算した値は dirty に含めず、getDirtyValues でも送らない
+      expect(store.getState().dirtyFields).toEqual({ quantity: true, discount: true });
+      expect(store.getDirtyValues()).toEqual({ quantity: 3, discount: 50 });
+
+      // deps に含まれないフィールドの変更では計算し直さない
+      computeSubtotal.mockClear();
+      store.setValue('note', 'Urgent');
+      store.setValue('discount', 0);
+      expect(computeSubtotal).not.toHaveBeenCalled();
+      expect(store.getState().values.total).toBe(300);
+    });
+
+    it('resetやresetFieldでも計算結果が値と揃う', () => {
+      const { store } = createQuoteStore();
+
+      store.reset({ ...defaultValues, quantity: 5 });
+      expect(store.getState()).toMatchObject({
+        values: { quantity: 5, subtotal: 500, total: 500 },
+        isDirty: false,
+      });
+
+      store.resetField('unitPrice', { defaultValue: 200 });
+      expect(store.getState()).toMatchObject({
+        values: { subtotal: 1000, total: 1000 },
+        isDirty: false,
+      });
+    });
+
+    it('他のフィールドと同じく検証でき、depsの変更で検証し直す', async () => {
+      const { store } = createQuoteStore();
+
+      // onBlur では値が変わっただけでは検証しない
+      store.setValue('quantity', 20);
+      await Promise.resolve();
+      expect(store.getState().errors).toEqual({});
+
+      expect(await store.validateAll()).toBe(false);
+      expect(store.getState().errors).toEqual({ total: 'Too expensive' });
+
+      // エラーが出ているフィールドは計算し直したときに検証し直す
+      store.setValue('discount', 1500);
+      await vi.waitFor(() => expect(store.getState().errors).toEqual({}));
+
+      const onChange = createQuoteStore({ mode: 'onChange' }).store;
+      onChange.register('unitPrice').onChange(2000);
+      await vi.waitFor(() => expect(onChange.getState().errors).toEqual({ total: 'Too expensive' }));
+    });
+  });
+});
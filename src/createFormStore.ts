@@ -0,0 +1,935 @@
+import { applyComputed, changedComputedPaths } from './computed';
+import { getInactivePaths, isDisabledPath, isInactivePath, omitInactive } from './conditions';
+import { computeDirtyFields, pickDirtyValues } from './dirty';
+import { formatFieldError, mergeFieldErrors, toFieldErrors, toMessages } from './fieldErrors';
+import { focusElement, sortByDocumentOrder } from './focus';
+import { createHistory } from './history';
+import type { HistorySnapshot } from './history';
+import { resolveInputParser } from './inputParsers';
+import { getByPath, reindexPaths, setByPath } from './path';
+import { createPersister, mergeDraft } from './persist';
+import { toSchemaResult } from './resolver';
+import { createSearchParamsSync } from './searchParams';
+import type { SchemaResult } from './resolver';
+import type { InferSchemaInput, InferSchemaOutput, StandardSchemaV1 } from './standardSchema';
+import type {
+  DirtyFields,
+  ErrorDetails,
+  ErrorPath,
+  Errors,
+  FieldError,
+  FieldChange,
+  FieldElement,
+  FieldErrorInput,
+  FocusFieldOptions,
+  FormEvent,
+  FormState,
+  InputDrafts,
+  FormStore,
+  FormValidatorResult,
+  InputParser,
+  InvalidSubmitHandler,
+  Path,
+  PathValue,
+  ResetFieldOptions,
+  ResetOptions,
+  SubmitHandler,
+  UseFormOptions,
+  UseFormSchemaOptions,
+  ValidatorResult,
+  WritableArrayPath,
+} from './types';
+
+type ValidationRun = {
+  signal: AbortSignal;
+  result: FieldError[] | Promise<FieldError[]>;
+  // 非同期の実行で、結果を反映した後に呼ぶ（isValidating から外す）
+  finish?: () => void;
+};
+
+// registerInput で表示する入力中の文字列だけを取り出す
+function toInputTexts(
+  drafts: Partial<Record<string, { input: string }>>
+): Partial<Record<string, string>> {
+  const inputs: Partial<Record<string, string>> = {};
+  Object.entries(drafts).forEach(([name, draft]) => {
+    if (draft) inputs[name] = draft.input;
+  });
+  return inputs;
+}
+
+function shallowEqual(a: Partial<Record<string, unknown>>, b: Partial<Record<string, unknown>>) {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => Object.is(a[key], b[key]));
+}
+
+function isPromiseLike<T>(value: T | Promise<T>): value is Promise<T> {
+  return typeof (value as { then?: unknown } | null)?.then === 'function';
+}
+
+// バリデータの例外（API の失敗など）はそのフィールドのエラーにし、onChange / onBlur から漏らさない
+function toValidatorFailure(error: unknown): ValidatorResult {
+  return { type: 'validate', message: error instanceof Error ? error.message : String(error) };
+}
+
+function callValidator(
+  validate: () => ValidatorResult | Promise<ValidatorResult>
+): ValidatorResult | Promise<ValidatorResult> {
+  try {
+    const result = validate();
+    return isPromiseLike(result) ? Promise.resolve(result).catch(toValidatorFailure) : result;
+  } catch (error) {
+    return toValidatorFailure(error);
+  }
+}
+
+// onValid が投げた値のうち、{ パス: メッセージ } の形をしたものだけをフォームのエラーとして扱う
+function isErrorsObject(value: unknown): value is Partial<Record<string, string>> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) return false;
+  return Object.values(value).every((message) => typeof message === 'string');
+}
+
+function omitKey<TRecord extends Partial<Record<string, unknown>>>(
+  record: TRecord,
+  key: string
+): TRecord {
+  if (!(key in record)) return record;
+  const next = { ...record };
+  delete next[key];
+  return next;
+}
+
+export function createFormStore<
+  TSchema extends StandardSchemaV1<Record<string, unknown>, unknown>,
+>(
+  options: UseFormSchemaOptions<TSchema>
+): FormStore<InferSchemaInput<TSchema>, InferSchemaOutput<TSchema>>;
+export function createFormStore<TValues extends Record<string, unknown>, TOutput = TValues>(
+  options: UseFormOptions<TValues, TOutput>
+): FormStore<TValues, TOutput>;
+export function createFormStore<TValues extends Record<string, unknown>, TOutput = TValues>(
+  initialOptions: UseFormOptions<TValues, TOutput>
+): FormStore<TValues, TOutput> {
+  let options = initialOptions;
+  // 非同期の defaultValues は hydrate で読み込む。それまでは空のオブジェクトで代用する
+  const loadDefaultValues =
+    typeof options.defaultValues === 'function' ? options.defaultValues : null;
+  let loadedDefaultValues = {} as TValues;
+  let loadingDefaultValues: Promise<void> | null = null;
+  // 読み込みの間に値を渡して reset されたら、読み込んだ値で上書きしない
+  let resetDuringLoad: { keepDefaultValues: boolean } | null = null;
+  // resetField の defaultValue で差し替えた初期値（reset() で戻す値にも使う）
+  let defaultValueOverrides: Partial<Record<string, unknown>> = {};
+  const getDefaultValues = () => {
+    const defaults =
+      typeof options.defaultValues === 'function' ? loadedDefaultValues : options.defaultValues;
+    const overridden = Object.entries(defaultValueOverrides).reduce(
+      (result, [path, value]) => setByPath(result, path as Path<TValues>, value as never),
+      defaults
+    );
+    return applyComputed(overridden, options.computed);
+  };
+  // dirty 判定の基準。reset で差し替わる
+  let baseline = getDefaultValues();
+  // computed のフィールドは他のフィールドから決まるので dirty に含めない（getDirtyValues で送らない）
+  const getDirtyFields = (values: TValues): DirtyFields<TValues> => {
+    const dirtyFields = computeDirtyFields(values, baseline, options.isEqual);
+    const computedPaths = Object.keys(options.computed ?? {});
+    return Object.keys(dirtyFields)
+      .filter((key) => computedPaths.some((path) => key === path || key.startsWith(`${path}.`)))
+      .reduce(omitKey, dirtyFields);
+  };
+  let state: FormState<TValues> = {
+    values: baseline,
+    errors: {},
+    errorDetails: {},
+    touched: {},
+    dirtyFields: {},
+    isDirty: false,
+    isValidating: {},
+    inputDrafts: {},
+    isLoading: loadDefaultValues !== null,
+    loadError: undefined,
+    isSubmitting: false,
+    submitCount: 0,
+    isSubmitted: false,
+    isSubmitSuccessful: false,
+    submitError: undefined,
+    canUndo: false,
+    canRedo: false,
+  };
+
+  const listeners = new Set<() => void>();
+
+  // フィールドごとに実行中のバリデーション。新しい実行が始まったら古いものはabortする
+  const controllers: Partial<Record<Path<TValues>, AbortController>> = {};
+  // 実行中の validateAll（validate / resolver の結果を反映するかの判定に使う）
+  let validateAllController: AbortController | null = null;
+  // reset のたびに進める。送信中に reset されたら、その送信の結果は状態に残さない
+  let submitGeneration = 0;
+  // registerInput で parse できなかった入力。値は更新せず、入力中の文字列とエラーを持っておく
+  let inputDrafts: Partial<Record<string, { input: string; errors: FieldError[] }>> = {};
+
+  // register の ref で受け取った要素と、フィールドごとに使い回す ref コールバック
+  const elements: Partial<Record<string, FieldElement>> = {};
+  const refCallbacks: Partial<Record<string, (element: FieldElement | null) => void>> = {};
+
+  const persister = createPersister(() => options.persist);
+  const history = createHistory<TValues>(() => options.history);
+  const searchParams = createSearchParamsSync<TValues>(() => options.syncWithSearchParams);
+
+  const getState = () => state;
+
+  // plugins の onEvent に通知する（state は通知の時点の状態）
+  const emit = (event: FormEvent<TValues>) => {
+    options.plugins?.forEach((plugin) => plugin.onEvent?.(event, state));
+  };
+
+  const emitValidate = (name: Path<TValues> | null, valid: boolean) => {
+    const { errorDetails } = state;
+    const errors =
+      name === null ? errorDetails : name in errorDetails ? { [name]: errorDetails[name] } : {};
+    emit({ type: 'validate', name, valid, errors: errors as ErrorDetails<TValues> });
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const setState = (
+    update: Partial<FormState<TValues>> | ((prev: FormState<TValues>) => Partial<FormState<TValues>>)
+  ) => {
+    const patch = typeof update === 'function' ? update(state) : update;
+    const next = { ...state, ...patch };
+    if (next.values !== state.values) {
+      // deps が変わった computed のフィールドを計算し直す
+      next.values = applyComputed(next.values, options.computed, state.values);
+      // dirtyFields を渡されたとき（reset の keepDirty など）は計算し直さない
+      if (!('dirtyFields' in patch)) {
+        next.dirtyFields = getDirtyFields(next.values);
+        next.isDirty = Object.keys(next.dirtyFields).length > 0;
+      }
+      persister.save(next.values);
+      searchParams.save(next.values, next.dirtyFields);
+
+      // 使われなくなったフィールドのエラーは残さない
+      const inactivePaths = getInactivePaths(next.values, options.fields);
+      const stale = Object.keys(next.errorDetails).filter((key) =>
+        isInactivePath(key, inactivePaths)
+      );
+      if (stale.length) {
+        next.errorDetails = stale.reduce(omitKey, next.errorDetails);
+      }
+    }
+    if (next.errorDetails !== state.errorDetails) {
+      next.errors = toMessages(next.errorDetails) as Errors<TValues>;
+    }
+    // inputDrafts は状態を更新する直前に書き換えるので、ここで状態にも反映する
+    const inputs = toInputTexts(inputDrafts);
+    if (!shallowEqual(inputs, next.inputDrafts)) next.inputDrafts = inputs as InputDrafts<TValues>;
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const setOptions = (nextOptions: UseFormOptions<TValues, TOutput>) => {
+    options = nextOptions;
+  };
+
+  const cancelValidation = (name: Path<TValues>) => {
+    const controller = controllers[name];
+    if (!controller) return;
+
+    controller.abort();
+    delete controllers[name];
+    if (name in state.isValidating) {
+      setState((prev) => ({ isValidating: omitKey(prev.isValidating, name) }));
+    }
+  };
+
+  const cancelValidations = () => {
+    validateAllController?.abort();
+    validateAllController = null;
+    (Object.keys(controllers) as Array<Path<TValues>>).forEach(cancelValidation);
+  };
+
+  const formatError = (error: FieldErrorInput) =>
+    formatFieldError(error, options.messages, options.locale);
+
+  // resolver / validate の例外はフォーム全体（root）のエラーにし、onChange / onBlur から漏らさない
+  const toRulesFailure = (error: unknown): SchemaResult => ({
+    valid: false,
+    errors: { root: toFieldErrors(toValidatorFailure(error), formatError) },
+  });
+
+  // resolver と form レベルの validate をまとめて実行する（同じキーでは validate を優先）
+  const runFormRules = (snapshot: TValues): SchemaResult | Promise<SchemaResult> | null => {
+    try {
+      const rules = collectFormRules(snapshot);
+      return isPromiseLike(rules) ? rules.catch(toRulesFailure) : rules;
+    } catch (error) {
+      return toRulesFailure(error);
+    }
+  };
+
+  const collectFormRules = (snapshot: TValues): SchemaResult | Promise<SchemaResult> | null => {
+    const { resolver, validate } = options;
+    if (!resolver && !validate) return null;
+
+    const schemaResult = resolver ? resolver['~standard'].validate(snapshot) : null;
+    const schema = isPromiseLike(schemaResult)
+      ? schemaResult.then(toSchemaResult)
+      : schemaResult && toSchemaResult(schemaResult);
+    const formResult = validate ? validate(snapshot) : null;
+
+    const merge = (
+      fromSchema: SchemaResult | null,
+      fromForm: FormValidatorResult<TValues> | null
+    ): SchemaResult => {
+      const formErrors: Partial<Record<string, FieldError[]>> = {};
+      Object.entries(fromForm ?? {}).forEach(([path, result]) => {
+        const errors = toFieldErrors(result as ValidatorResult, formatError);
+        if (errors.length) formErrors[path] = errors;
+      });
+
+      const errors: Partial<Record<string, FieldError[]>> = {};
+      new Set([...Object.keys(formErrors), ...Object.keys(fromSchema?.errors ?? {})]).forEach(
+        (path) => {
+          errors[path] = mergeFieldErrors(
+            [formErrors[path], fromSchema?.errors[path]],
+            options.criteriaMode ?? 'firstError'
+          );
+        }
+      );
+      return {
+        valid: (fromSchema?.valid ?? true) && Object.keys(formErrors).length === 0,
+        errors,
+        value: fromSchema?.value,
+      };
+    };
+
+    if (!isPromiseLike(schema) && !isPromiseLike(formResult)) return merge(schema, formResult);
+    return Promise.all([schema, formResult]).then(([fromSchema, fromForm]) =>
+      merge(fromSchema, fromForm)
+    );
+  };
+
+  // validators の結果を優先し、なければ validate / resolver のエラーを使う
+  const runValidator = <P extends Path<TValues>>(
+    name: P,
+    snapshot: TValues,
+    rules: SchemaResult | Promise<SchemaResult> | null
+  ): ValidationRun | null => {
+    const validate = options.validators?.[name];
+    cancelValidation(name);
+    if (!validate && !rules) return null;
+
+    const controller = new AbortController();
+    const result = validate
+      ? callValidator(() =>
+          validate(getByPath(snapshot, name), snapshot, { signal: controller.signal })
+        )
+      : null;
+    const combine = (fieldResult: ValidatorResult, rulesResult: SchemaResult | null) =>
+      mergeFieldErrors(
+        [toFieldErrors(fieldResult, formatError), rulesResult?.errors[name]],
+        options.criteriaMode ?? 'firstError'
+      );
+
+    if (!isPromiseLike(result) && !isPromiseLike(rules)) {
+      return { signal: controller.signal, result: combine(result, rules) };
+    }
+
+    controllers[name] = controller;
+    setState((prev) => ({ isValidating: { ...prev.isValidating, [name]: true } }));
+
+    const settled = Promise.all([result, rules]).then(([fieldResult, rulesResult]) =>
+      combine(fieldResult, rulesResult)
+    );
+    const finish = () => {
+      // 後続の実行に置き換えられている場合はそちらに任せる
+      if (controllers[name] !== controller) return;
+      delete controllers[name];
+      setState((prev) => ({ isValidating: omitKey(prev.isValidating, name) }));
+    };
+
+    return { signal: controller.signal, result: settled, finish };
+  };
+
+  // parse できていない入力のエラーは、値に対する検証結果より先に並べる
+  const withInputErrors = (name: string, errors: FieldError[] | undefined) =>
+    mergeFieldErrors([inputDrafts[name]?.errors, errors], options.criteriaMode ?? 'firstError');
+
+  const validateField = async <P extends Path<TValues>>(name: P): Promise<boolean> => {
+    // 非同期の defaultValues を読み込む間は values が揃っていないので検証しない
+    if (state.isLoading) return false;
+    const inactivePaths = getInactivePaths(state.values, options.fields);
+    if (isInactivePath(name, inactivePaths)) {
+      cancelValidation(name);
+      if (name in state.errorDetails) {
+        setState((prev) => ({ errorDetails: omitKey(prev.errorDetails, name) }));
+      }
+      emitValidate(name, true);
+      return true;
+    }
+
+    const snapshot = omitInactive(state.values, inactivePaths);
+    const run = runValidator(name, snapshot, runFormRules(snapshot));
+    if (!run) {
+      const errors = withInputErrors(name, []);
+      if (errors.length) {
+        setState((prev) => ({ errorDetails: { ...prev.errorDetails, [name]: errors } }));
+      } else if (name in state.errorDetails) {
+        setState((prev) => ({ errorDetails: omitKey(prev.errorDetails, name) }));
+      }
+      emitValidate(name, errors.length === 0);
+      return errors.length === 0;
+    }
+
+    // 同期バリデータはawaitせずに反映する（blur直後にエラーが見えるように）
+    try {
+      const result = isPromiseLike(run.result) ? await run.result : run.result;
+      const errors = withInputErrors(name, result);
+      if (run.signal.aborted) return errors.length === 0;
+
+      setState((prev) => ({
+        errorDetails: errors.length
+          ? { ...prev.errorDetails, [name]: errors }
+          : omitKey(prev.errorDetails, name),
+      }));
+      emitValidate(name, errors.length === 0);
+      return errors.length === 0;
+    } finally {
+      // エラーを反映してから外す（検証中でもエラーもない状態が挟まらないように）
+      run.finish?.();
+    }
+  };
+
+  // schemaValue は resolver が返した値（handleSubmit で onValid に渡す）
+  const runValidateAll = async (): Promise<{ ok: boolean; schemaValue?: unknown }> => {
+    if (state.isLoading) return { ok: false };
+    const { validators, resolver, validate } = options;
+    const inactivePaths = getInactivePaths(state.values, options.fields);
+    const isActive = (key: string) => !isInactivePath(key, inactivePaths);
+    // 表示を保つだけの入力（'1.' など）はエラーではない
+    const draftKeys = Object.keys(inputDrafts).filter(
+      (key) => isActive(key) && inputDrafts[key]?.errors.length
+    );
+    if (!validators && !resolver && !validate) {
+      cancelValidations();
+      const nextDetails: Partial<Record<string, FieldError[]>> = {};
+      draftKeys.forEach((key) => (nextDetails[key] = withInputErrors(key, [])));
+      setState({ errorDetails: nextDetails as ErrorDetails<TValues> });
+      emitValidate(null, draftKeys.length === 0);
+      return { ok: draftKeys.length === 0 };
+    }
+
+    // validateAll 同士では新しい実行だけを反映する
+    validateAllController?.abort();
+    const controller = new AbortController();
+    validateAllController = controller;
+
+    // 使われていないフィールドは検証せず、validate / resolver にも渡さない
+    const snapshot = omitInactive(state.values, inactivePaths);
+    const keys = (Object.keys(validators ?? {}) as Array<Path<TValues>>).filter(
+      (key) => validators?.[key] && isActive(key)
+    );
+    const runs = keys.map((key) => runValidator(key, snapshot, null) as ValidationRun);
+    const results = runs.map((run) => run.result);
+    const rules = runFormRules(snapshot);
+
+    try {
+      const [fieldErrors, rulesResult] =
+        results.some(isPromiseLike) || isPromiseLike(rules)
+          ? await Promise.all([Promise.all(results), rules])
+          : [results as FieldError[][], rules as SchemaResult | null];
+      const ruleErrors: Partial<Record<string, FieldError[]>> = {};
+      Object.entries(rulesResult?.errors ?? {}).forEach(([key, errors]) => {
+        if (isActive(key)) ruleErrors[key] = errors;
+      });
+
+      const ok =
+        fieldErrors.every((errors) => errors.length === 0) &&
+        Object.keys(ruleErrors).length === 0 &&
+        draftKeys.length === 0;
+      if (controller.signal.aborted) return { ok, schemaValue: rulesResult?.value };
+      validateAllController = null;
+
+      setState((prev) => {
+        const prevDetails: Partial<Record<string, FieldError[]>> = prev.errorDetails;
+        const nextDetails: Partial<Record<string, FieldError[]>> = { ...ruleErrors };
+        keys.forEach((key, index) => {
+          // 途中で個別に再検証されたフィールドは、古い結果で上書きしない
+          if (runs[index].signal.aborted) {
+            if (prevDetails[key] !== undefined) nextDetails[key] = prevDetails[key];
+            else delete nextDetails[key];
+            return;
+          }
+          const errors = mergeFieldErrors(
+            [inputDrafts[key]?.errors, fieldErrors[index], ruleErrors[key]],
+            options.criteriaMode ?? 'firstError'
+          );
+          if (errors.length) nextDetails[key] = errors;
+          else delete nextDetails[key];
+        });
+        draftKeys
+          .filter((key) => !keys.includes(key as Path<TValues>))
+          .forEach((key) => (nextDetails[key] = withInputErrors(key, nextDetails[key])));
+        return { errorDetails: nextDetails as ErrorDetails<TValues> };
+      });
+
+      emitValidate(null, ok);
+      return { ok, schemaValue: rulesResult?.value };
+    } finally {
+      runs.forEach((run) => run.finish?.());
+    }
+  };
+
+  const validateAll = async () => (await runValidateAll()).ok;
+
+  const takeSnapshot = (): HistorySnapshot<TValues> => ({
+    values: state.values,
+    touched: state.touched,
+    errorDetails: state.errorDetails,
+  });
+
+  const setValue = <P extends Path<TValues>>(name: P, value: PathValue<TValues, P>) => {
+    // plugins は順に値を置き換えられ、false を返すと変更を取り消す
+    let change = { name, value } as FieldChange<TValues>;
+    for (const plugin of options.plugins ?? []) {
+      const result = plugin.beforeChange?.(change, state.values);
+      if (result === false) return;
+      if (result) change = { name, value: result.value } as FieldChange<TValues>;
+    }
+
+    // 値が確定したので、parse できなかった入力は捨てる
+    delete inputDrafts[name];
+    history.record(name, takeSnapshot());
+    const before = state.values;
+    setState((prev) => ({
+      values: setByPath(prev.values, name, change.value as PathValue<TValues, P>),
+      ...history.flags(),
+    }));
+    emit({ type: 'change', ...change });
+    revalidateComputed(before);
+  };
+
+  // 計算し直した computed のフィールドは、入力されたフィールドと同じく mode に従って検証する
+  // （エラーが出ていれば mode に関係なく検証し直し、古いエラーを残さない）
+  const revalidateComputed = (before: TValues) => {
+    changedComputedPaths(before, state.values, options.computed)
+      .filter(
+        (name) => name in state.errorDetails || shouldValidateOn('change', name as Path<TValues>)
+      )
+      .forEach((name) => void validateField(name as Path<TValues>));
+  };
+
+  const shouldValidateOn = (event: 'change' | 'blur', name: Path<TValues>): boolean => {
+    // 一度でも送信を試みたら mode ではなく reValidateMode に従う
+    const mode = state.submitCount > 0
+      ? (options.reValidateMode ?? 'onChange')
+      : (options.mode ?? 'onBlur');
+
+    switch (mode) {
+      case 'all':
+        return true;
+      case 'onChange':
+        return event === 'change';
+      case 'onBlur':
+        return event === 'blur';
+      case 'onTouched':
+        // 最初のblurまでは検証せず、その後は入力のたびに検証する
+        return event === 'blur' || state.touched[name] === true;
+      case 'onSubmit':
+        return false;
+    }
+  };
+
+  const register = <P extends Path<TValues>>(name: P) => {
+    return {
+      name,
+      value: getByPath(state.values, name),
+      onChange: (value: PathValue<TValues, P>) => {
+        setValue(name, value);
+        if (shouldValidateOn('change', name)) void validateField(name);
+      },
+      onBlur: () => {
+        setState((prev) => ({ touched: { ...prev.touched, [name]: true } }));
+        emit({ type: 'blur', name });
+        if (shouldValidateOn('blur', name)) void validateField(name);
+      },
+      // 毎回同じ関数を返し、React が再レンダーのたびに付け替えないようにする
+      ref: (refCallbacks[name] ??= (element: FieldElement | null) => {
+        if (element) elements[name] = element;
+        else delete elements[name];
+      }),
+    } as const;
+  };
+
+  const setFocus = (name: Path<TValues>, focusOptions?: FocusFieldOptions) => {
+    const element = elements[name];
+    if (element) focusElement(element, focusOptions);
+  };
+
+  const focusFirstError = () => {
+    const { shouldFocusError = true } = options;
+    if (!shouldFocusError) return;
+
+    const invalid = Object.keys(state.errorDetails).flatMap((name) => {
+      const element = elements[name];
+      return element ? [{ name, element }] : [];
+    });
+    const [first] = sortByDocumentOrder(invalid);
+    if (first) focusElement(first.element, shouldFocusError === true ? {} : shouldFocusError);
+  };
+
+  const registerInput = ((
+    name: Path<TValues>,
+    inputOptions?: InputParser<never> | { as: 'number' | 'date' | 'select' | 'checkbox' }
+  ) => {
+    const field = register(name);
+    const isDisabled = isDisabledPath(name, state.values, options.fields);
+    if (inputOptions && 'as' in inputOptions && inputOptions.as === 'checkbox') {
+      return {
+        name,
+        type: 'checkbox',
+        checked: field.value === true,
+        disabled: isDisabled,
+        onChange: (event: { target: { checked: boolean } }) =>
+          field.onChange(event.target.checked as PathValue<TValues, Path<TValues>>),
+        onBlur: field.onBlur,
+        ref: field.ref,
+      };
+    }
+
+    const parser = resolveInputParser(inputOptions as Parameters<typeof resolveInputParser>[0]);
+    return {
+      name,
+      value: inputDrafts[name]?.input ?? parser.format(field.value),
+      disabled: isDisabled,
+      onChange: (event: { target: { value: string } }) => {
+        const input = event.target.value;
+        const parsed = parser.parse(input);
+        if ('value' in parsed) {
+          field.onChange(parsed.value as PathValue<TValues, Path<TValues>>);
+          // 整形すると入力が変わる（'1.' → '1'）間は、入力された文字列のまま表示する
+          if (parser.format(parsed.value) !== input) {
+            inputDrafts[name] = { input, errors: [] };
+            setState({});
+          }
+          return;
+        }
+
+        inputDrafts[name] = { input, errors: toFieldErrors(parsed.error, formatError) };
+        if (shouldValidateOn('change', name)) void validateField(name);
+        // 入力中の文字列を表示し直すために購読者へ通知する
+        else setState({});
+      },
+      onBlur: field.onBlur,
+      ref: field.ref,
+    };
+  }) as FormStore<TValues>['registerInput'];
+
+  const reset = (nextValues?: TValues, resetOptions: ResetOptions = {}) => {
+    const { keepDirty, keepErrors, keepTouched, keepDefaultValues } = resetOptions;
+    const values = applyComputed(nextValues ?? getDefaultValues(), options.computed);
+    cancelValidations();
+    inputDrafts = {};
+    history.clear();
+    submitGeneration += 1;
+    if (!keepDefaultValues) baseline = values;
+    if (state.isLoading) {
+      resetDuringLoad = nextValues ? { keepDefaultValues: !!keepDefaultValues } : null;
+    }
+
+    setState((prev) => {
+      const dirtyFields = keepDirty
+        ? prev.dirtyFields
+        : getDirtyFields(values);
+      return {
+        values,
+        errorDetails: keepErrors ? prev.errorDetails : {},
+        touched: keepTouched ? prev.touched : {},
+        dirtyFields,
+        isDirty: Object.keys(dirtyFields).length > 0,
+        submitCount: 0,
+        isSubmitted: false,
+        isSubmitSuccessful: false,
+        submitError: undefined,
+        ...history.flags(),
+      };
+    });
+    // reset の値は下書きとして残さない
+    persister.clear();
+    emit({ type: 'reset', values });
+  };
+
+  const resetField = <P extends Path<TValues>>(
+    name: P,
+    fieldOptions: ResetFieldOptions<PathValue<TValues, P>> = {}
+  ) => {
+    if ('defaultValue' in fieldOptions) {
+      // 配下のフィールドの差し替えは新しい値に含まれるので捨てる
+      defaultValueOverrides = {
+        ...Object.keys(defaultValueOverrides)
+          .filter((key) => key.startsWith(`${name}.`))
+          .reduce(omitKey, defaultValueOverrides),
+        [name]: fieldOptions.defaultValue,
+      };
+      baseline = applyComputed(
+        setByPath(baseline, name, fieldOptions.defaultValue as PathValue<TValues, P>),
+        options.computed
+      );
+    }
+    const value = getByPath(baseline, name);
+    // 配下のフィールド（'profile' に対する 'profile.age' など）の状態もまとめて消す
+    const isTarget = (key: string) => key === name || key.startsWith(`${name}.`);
+
+    (Object.keys(controllers) as Array<Path<TValues>>).filter(isTarget).forEach(cancelValidation);
+    Object.keys(inputDrafts).filter(isTarget).forEach((key) => delete inputDrafts[key]);
+    history.record(null, takeSnapshot());
+    setState((prev) => {
+      const values = applyComputed(
+        setByPath(prev.values, name, value),
+        options.computed,
+        prev.values
+      );
+      const dirtyFields = getDirtyFields(values);
+      return {
+        values,
+        errorDetails: Object.keys(prev.errorDetails)
+          .filter(isTarget)
+          .reduce(omitKey, prev.errorDetails),
+        touched: Object.keys(prev.touched).filter(isTarget).reduce(omitKey, prev.touched),
+        dirtyFields,
+        isDirty: Object.keys(dirtyFields).length > 0,
+        ...history.flags(),
+      };
+    });
+    emit({ type: 'change', name, value } as FormEvent<TValues>);
+  };
+
+  const getDirtyValues = () => pickDirtyValues(state.values, state.dirtyFields);
+
+  const updateFieldArray = <P extends WritableArrayPath<TValues>>(
+    name: P,
+    items: PathValue<TValues, P>,
+    order: Array<number | null>
+  ) => {
+    // 行の位置が変わるので、配下で実行中のバリデーションは結果ごと破棄する
+    (Object.keys(controllers) as Array<Path<TValues>>)
+      .filter((key) => key.startsWith(`${name}.`))
+      .forEach(cancelValidation);
+
+    inputDrafts = reindexPaths(inputDrafts, name, order);
+    history.record(null, takeSnapshot());
+    const before = state.values;
+    setState((prev) => ({
+      values: setByPath(prev.values, name, items),
+      errorDetails: reindexPaths(prev.errorDetails, name, order),
+      touched: reindexPaths(prev.touched, name, order),
+      ...history.flags(),
+    }));
+    emit({ type: 'change', name, value: items } as FormEvent<TValues>);
+    revalidateComputed(before);
+  };
+
+  // 実行中の検証や parse できなかった入力は戻した先の値と合わないので捨てる
+  const restore = (snapshot: HistorySnapshot<TValues> | null) => {
+    if (!snapshot) return;
+    cancelValidations();
+    inputDrafts = {};
+    setState({ ...snapshot, ...history.flags() });
+  };
+
+  const undo = () => restore(history.undo(takeSnapshot()));
+
+  const redo = () => restore(history.redo(takeSnapshot()));
+
+  const setError = (name: ErrorPath<TValues>, error: string | FieldErrorInput) => {
+    // 実行中の検証結果で上書きされないようにする
+    if (name !== 'root') cancelValidation(name);
+    setState((prev) => ({
+      errorDetails: { ...prev.errorDetails, [name]: toFieldErrors(error, formatError) },
+    }));
+  };
+
+  const clearErrors = (names?: ErrorPath<TValues> | ReadonlyArray<ErrorPath<TValues>>) => {
+    if (names === undefined) {
+      setState({ errorDetails: {} });
+      return;
+    }
+    const targets: ReadonlyArray<string> = Array.isArray(names) ? names : [names];
+    setState((prev) => {
+      const next: Partial<Record<string, FieldError[]>> = { ...prev.errorDetails };
+      targets.forEach((name) => delete next[name]);
+      return { errorDetails: next as ErrorDetails<TValues> };
+    });
+  };
+
+  // onValid が返した（または投げた）サーバー側のエラーをフォームに反映する
+  const applySubmitErrors = (errors: Errors<TValues>): boolean => {
+    const entries = Object.entries(errors).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== ''
+    );
+    if (!entries.length) return false;
+    setState((prev) => {
+      const next: Partial<Record<string, FieldError[]>> = { ...prev.errorDetails };
+      entries.forEach(([name, message]) => {
+        next[name] = [{ type: 'server', message }];
+      });
+      return { errorDetails: next as ErrorDetails<TValues> };
+    });
+    return true;
+  };
+
+  const handleSubmit = (
+    onValid: SubmitHandler<TValues, TOutput>,
+    onInvalid?: InvalidSubmitHandler<TValues>
+  ) => {
+    return async (e?: unknown) => {
+      // React form submitイベントが来ても依存しない（UIなし方針）
+      if (e && typeof (e as { preventDefault?: () => void }).preventDefault === 'function') {
+        (e as { preventDefault: () => void }).preventDefault();
+      }
+
+      if (options.preventDoubleSubmit && state.isSubmitting) return;
+      // 読み込み中は送信しない（submitCount も数えない）
+      if (state.isLoading) return;
+
+      const generation = submitGeneration;
+      let isSubmitSuccessful = false;
+      let submitError: unknown;
+      setState((prev) => ({
+        isSubmitting: true,
+        submitCount: prev.submitCount + 1,
+        submitError: undefined,
+      }));
+      emit({ type: 'submitStart', values: state.values });
+      try {
+        const { ok, schemaValue } = await runValidateAll();
+        if (!ok) {
+          emit({ type: 'submitFailure', errors: state.errors, error: undefined });
+          focusFirstError();
+          await onInvalid?.(state.errors);
+          return;
+        }
+
+        try {
+          const values = omitInactive(
+            state.values,
+            getInactivePaths(state.values, options.fields)
+          );
+          // transform があればそれを、なければ resolver が返した値を渡す
+          const output = options.transform
+            ? options.transform(values)
+            : options.resolver
+              ? (schemaValue as TOutput)
+              : (values as unknown as TOutput);
+          const errors = await onValid(output);
+          isSubmitSuccessful = !(errors && applySubmitErrors(errors));
+          if (isSubmitSuccessful) {
+            if (generation === submitGeneration) persister.clear();
+            emit({ type: 'submitSuccess', values });
+          } else {
+            emit({ type: 'submitFailure', errors: state.errors, error: undefined });
+            focusFirstError();
+          }
+        } catch (error) {
+          // エラーオブジェクト以外の例外は submitError に残す
+          if (isErrorsObject(error)) {
+            applySubmitErrors(error as Errors<TValues>);
+            focusFirstError();
+          } else {
+            submitError = error;
+          }
+          emit({ type: 'submitFailure', errors: state.errors, error: submitError });
+        }
+      } finally {
+        setState(
+          generation === submitGeneration
+            ? { isSubmitting: false, isSubmitted: true, isSubmitSuccessful, submitError }
+            : { isSubmitting: false }
+        );
+      }
+    };
+  };
+
+  // 何度 hydrate されても（StrictMode の再マウントなど）読み込みは1回にする
+  const hydrateDefaultValues = (load: () => Promise<TValues>) =>
+    (loadingDefaultValues ??= (async () => {
+      try {
+        loadedDefaultValues = applyComputed(await load(), options.computed);
+      } catch (error) {
+        setState({ isLoading: false, loadError: error });
+        throw error;
+      }
+      if (resetDuringLoad) {
+        if (resetDuringLoad.keepDefaultValues) baseline = getDefaultValues();
+        const dirtyFields = getDirtyFields(state.values);
+        return setState({
+          isLoading: false,
+          dirtyFields,
+          isDirty: Object.keys(dirtyFields).length > 0,
+        });
+      }
+      baseline = getDefaultValues();
+      // 読み込みの間に編集されたフィールドは、読み込んだ値で上書きしない
+      const values = (Object.keys(state.dirtyFields) as Array<Path<TValues>>).reduce(
+        (result, path) => setByPath(result, path, getByPath(state.values, path)),
+        baseline
+      );
+      setState({ values, isLoading: false });
+    })());
+
+  const hydrate = async () => {
+    if (loadDefaultValues) await hydrateDefaultValues(loadDefaultValues);
+    const before = state.values;
+    const draft = await persister.load();
+    if (draft !== null && state.values === before) {
+      setState({ values: mergeDraft(state.values, draft) });
+    }
+
+    // 共有された URL のクエリは下書きより優先する。decode できなかった値はフィールドのエラーにする
+    const query = searchParams.load(state.values);
+    if (!query) return;
+    setState({ values: query.values });
+    Object.entries(query.errors).forEach(([name, error]) => {
+      if (error !== undefined) setError(name as ErrorPath<TValues>, error);
+    });
+  };
+
+  const dispose = () => {
+    cancelValidations();
+    persister.flush();
+    searchParams.cancel();
+  };
+
+  return {
+    getState,
+    subscribe,
+    setOptions,
+    cancelValidations,
+    dispose,
+    hydrate,
+    register,
+    registerInput,
+    setValue,
+    setFocus,
+    validateField,
+    validateAll,
+    setError,
+    clearErrors,
+    handleSubmit,
+    reset,
+    resetField,
+    undo,
+    redo,
+    getDirtyValues,
+    updateFieldArray,
+  };
+}
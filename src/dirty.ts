@@ -0,0 +1,88 @@
+import { getByPath, setByPath } from './path';
+import type { DeepPartial, DirtyFields, FieldComparators, Path } from './types';
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * 末端のフィールドのパスと値を集める（プレーンなオブジェクトは辿り、配列・Date などは1つのフィールド）
+ */
+export function collectFields(values: unknown, path = ''): Array<[string, unknown]> {
+  if (!isPlainObject(values)) return path ? [[path, values]] : [];
+  return Object.entries(values).flatMap(([key, value]) =>
+    collectFields(value, path ? `${path}.${key}` : key)
+  );
+}
+
+/**
+ * Date・配列・プレーンなオブジェクトを中身で比較する
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+
+  return false;
+}
+
+/**
+ * baseline と異なるフィールドのパスを集める
+ * プレーンなオブジェクトは末端まで辿り、配列・Date などはまとめて1つの値として比較する
+ */
+export function computeDirtyFields<TValues extends Record<string, unknown>>(
+  values: TValues,
+  baseline: TValues,
+  comparators: FieldComparators<TValues> = {}
+): DirtyFields<TValues> {
+  const dirty: Partial<Record<string, boolean>> = {};
+  const compareAt = comparators as Partial<Record<string, (a: unknown, b: unknown) => boolean>>;
+
+  const collect = (current: unknown, base: unknown, path: string) => {
+    const compare = path ? compareAt[path] : undefined;
+    if (compare) {
+      if (!compare(current, base)) dirty[path] = true;
+      return;
+    }
+    if (current === base) return;
+
+    if (isPlainObject(current) && isPlainObject(base)) {
+      new Set([...Object.keys(current), ...Object.keys(base)]).forEach((key) => {
+        collect(current[key], base[key], path ? `${path}.${key}` : key);
+      });
+      return;
+    }
+
+    if (path && !deepEqual(current, base)) dirty[path] = true;
+  };
+
+  collect(values, baseline, '');
+  return dirty as DirtyFields<TValues>;
+}
+
+/**
+ * 変更されたフィールドだけを元の構造のまま取り出す（PATCH リクエスト向け）
+ */
+export function pickDirtyValues<TValues extends Record<string, unknown>>(
+  values: TValues,
+  dirtyFields: DirtyFields<TValues>
+): DeepPartial<TValues> {
+  return (Object.keys(dirtyFields) as Array<Path<TValues>>).reduce(
+    (picked, path) => setByPath(picked, path, getByPath(values, path)),
+    {} as TValues
+  ) as DeepPartial<TValues>;
+}
@@ -0,0 +1,98 @@
+import type {
+  CriteriaMode,
+  ErrorMessages,
+  ErrorMessageTemplate,
+  FieldError,
+  FieldErrorInput,
+  ValidatorResult,
+} from './types';
+
+/**
+ * 組み込みのパーサー・ルールが返すエラーの既定の表示文字列（messages で上書きできる）
+ */
+export const defaultMessages: ErrorMessages = {
+  invalidNumber: 'Must be a number',
+  invalidDate: 'Must be a valid date',
+  required: 'Required',
+  minLength: 'Must be at least {min} long',
+  maxLength: 'Must be at most {max} long',
+  min: 'Must be {min} or more',
+  max: 'Must be {max} or less',
+  pattern: 'Invalid format',
+  email: 'Must be a valid email address',
+};
+
+function formatParam(value: unknown, locale: string | undefined): string {
+  if (typeof value === 'number') return new Intl.NumberFormat(locale).format(value);
+  if (value instanceof Date) return new Intl.DateTimeFormat(locale).format(value);
+  if (Array.isArray(value)) return value.map((item) => formatParam(item, locale)).join(', ');
+  return String(value);
+}
+
+/**
+ * テンプレートの {param} を params の値で置き換える（数値・日付は locale で整形する）
+ */
+export function formatMessage(
+  template: ErrorMessageTemplate,
+  params: Record<string, unknown>,
+  locale: string | undefined
+): string {
+  if (typeof template === 'function') return template(params, locale);
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in params ? formatParam(params[key], locale) : match
+  );
+}
+
+/**
+ * message のないエラーは messages → 既定の表示文字列の順にテンプレートを探して組み立てる
+ */
+export function formatFieldError(
+  error: FieldErrorInput,
+  messages: ErrorMessages | undefined,
+  locale: string | undefined
+): string {
+  if (error.message !== undefined) return error.message;
+  const template = messages?.[error.type] ?? defaultMessages[error.type];
+  return template ? formatMessage(template, error.params ?? {}, locale) : error.type;
+}
+
+/**
+ * バリデータの戻り値を FieldError の配列にそろえる（空配列なら有効）
+ */
+export function toFieldErrors(
+  result: ValidatorResult | undefined,
+  format: (error: FieldErrorInput) => string
+): FieldError[] {
+  if (result == null || result === '') return [];
+
+  const inputs = Array.isArray(result) ? result : [result as string | FieldErrorInput];
+  return inputs
+    .filter((input) => input !== '')
+    .map((input) => {
+      if (typeof input === 'string') return { type: 'validate', message: input };
+      const error: FieldError = { type: input.type, message: format(input) };
+      if (input.params) error.params = input.params;
+      return error;
+    });
+}
+
+/**
+ * 優先度の高い順に並んだ結果をまとめる。firstError では最初に見つかった1件だけを残す
+ */
+export function mergeFieldErrors(
+  sources: Array<FieldError[] | undefined>,
+  criteriaMode: CriteriaMode
+): FieldError[] {
+  const all = sources.flatMap((errors) => errors ?? []);
+  return criteriaMode === 'all' ? all : all.slice(0, 1);
+}
+
+export function toMessages(
+  details: Partial<Record<string, FieldError[]>>
+): Partial<Record<string, string>> {
+  const messages: Partial<Record<string, string>> = {};
+  Object.entries(details).forEach(([path, errors]) => {
+    if (errors?.length) messages[path] = errors[0].message;
+  });
+  return messages;
+}
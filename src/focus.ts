@@ -0,0 +1,25 @@
+import type { FieldElement, FocusFieldOptions } from './types';
+
+// Node.DOCUMENT_POSITION_FOLLOWING（DOM のない環境でも参照できるように値で持つ）
+const DOCUMENT_POSITION_FOLLOWING = 4;
+
+/**
+ * 要素を DOM の出現順に並べる（compareDocumentPosition がなければ元の順序のまま）
+ */
+export function sortByDocumentOrder<T extends { element: FieldElement }>(items: T[]): T[] {
+  return [...items].sort((a, b) => {
+    const position = a.element.compareDocumentPosition?.(b.element as unknown as Node);
+    if (position === undefined) return 0;
+    return position & DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+  });
+}
+
+export function focusElement(element: FieldElement, { scroll }: FocusFieldOptions = {}) {
+  if (!scroll) {
+    element.focus();
+    return;
+  }
+  element.scrollIntoView?.(scroll === true ? { block: 'center' } : scroll);
+  // スクロールは scrollIntoView に任せ、focus で位置が飛ばないようにする
+  element.focus({ preventScroll: true });
+}
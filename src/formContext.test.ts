@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createElement } from 'react';
+import type { ReactNode } from 'react';
+import { render, renderHook, act, screen, fireEvent } from '@testing-library/react';
+import { useForm } from './useForm';
+import { useController } from './useController';
+import { FormProvider, useFormContext } from './formContext';
+import type { UseFormReturn } from './types';
+
+type SignupForm = { name: string; email: string };
+
+describe('FormProvider / useFormContext', () => {
+  it('FormProviderに渡したformを子孫で受け取れる', () => {
+    const { result } = renderHook(() =>
+      useForm<SignupForm>({ defaultValues: { name: '', email: '' } })
+    );
+
+    const wrapper = ({ children }: { children?: ReactNode }) =>
+      createElement(FormProvider<SignupForm>, { form: result.current }, children);
+    const { result: context } = renderHook(() => useFormContext<SignupForm>(), { wrapper });
+
+    expect(context.current.store).toBe(result.current.store);
+
+    act(() => {
+      context.current.setValue('email', 'john@example.com');
+    });
+    expect(result.current.values.email).toBe('john@example.com');
+  });
+
+  it('子孫から読んだ状態の変化で再レンダーされる', () => {
+    let form!: UseFormReturn<SignupForm>;
+
+    function NameLabel() {
+      const { values } = useFormContext<SignupForm>();
+      return createElement('span', { 'data-testid': 'name' }, values.name);
+    }
+
+    function Signup() {
+      form = useForm<SignupForm>({ defaultValues: { name: '', email: '' } });
+      return createElement(FormProvider<SignupForm>, { form }, createElement(NameLabel));
+    }
+
+    render(createElement(Signup));
+
+    act(() => {
+      form.setValue('name', 'John');
+    });
+    expect(screen.getByTestId('name').textContent).toBe('John');
+  });
+
+  it('子孫がregisterやuseControllerを使っても、FormProviderを置いた親は再レンダーしない', () => {
+    type EventForm = { title: string; date: Date | null };
+    let form!: UseFormReturn<EventForm>;
+    let parentRenders = 0;
+
+    function TitleInput() {
+      const field = useFormContext<EventForm>().register('title');
+      return createElement('input', {
+        'aria-label': 'title',
+        value: field.value,
+        onChange: (e: { target: { value: string } }) => field.onChange(e.target.value),
+      });
+    }
+
+    function DateLabel() {
+      const { field } = useController(useFormContext<EventForm>(), 'date');
+      return createElement('span', { 'data-testid': 'date' }, field.value?.getFullYear());
+    }
+
+    function EventEditor() {
+      parentRenders += 1;
+      form = useForm<EventForm>({ defaultValues: { title: '', date: null } });
+      return createElement(
+        FormProvider<EventForm>,
+        { form },
+        createElement(TitleInput),
+        createElement(DateLabel)
+      );
+    }
+
+    render(createElement(EventEditor));
+
+    act(() => {
+      form.setValue('date', new Date(2024, 0, 1));
+    });
+    fireEvent.change(screen.getByLabelText('title'), { target: { value: 'Launch' } });
+
+    expect(screen.getByTestId('date').textContent).toBe('2024');
+    expect((screen.getByLabelText('title') as HTMLInputElement).value).toBe('Launch');
+    expect(parentRenders).toBe(1);
+  });
+
+  it('FormProviderの外で使うとエラーになる', () => {
+    // React が出力するエラーログを抑える
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => renderHook(() => useFormContext<SignupForm>())).toThrow(
+      'useFormContext must be used within a FormProvider'
+    );
+
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,38 @@
+import { createContext, createElement, useContext } from 'react';
+import type { ReactNode } from 'react';
+import { useTrackedForm } from './useForm';
+import type { UseFormReturn } from './types';
+
+// フォームの型は useFormContext の型引数で決めるので、ここでは値の型を持たない
+const FormContext = createContext<unknown>(null);
+
+export type FormProviderProps<TValues extends Record<string, unknown>, TOutput = TValues> = {
+  form: UseFormReturn<TValues, TOutput>;
+  children?: ReactNode;
+};
+
+/**
+ * 子孫のコンポーネントが useFormContext で form を受け取れるようにする
+ */
+export function FormProvider<TValues extends Record<string, unknown>, TOutput = TValues>({
+  form,
+  children,
+}: FormProviderProps<TValues, TOutput>) {
+  return createElement(FormContext.Provider, { value: form }, children);
+}
+
+/**
+ * FormProvider に渡された form を返す。型引数には FormProvider に渡したフォームの型を指定する
+ * 例: const form = useFormContext<SignupForm>()
+ * 読んだ状態はこのコンポーネントが購読する（FormProvider を置いたコンポーネントは再レンダーしない）
+ */
+export function useFormContext<
+  TValues extends Record<string, unknown>,
+  TOutput = TValues,
+>(): UseFormReturn<TValues, TOutput> {
+  const form = useContext(FormContext) as UseFormReturn<TValues, TOutput> | null;
+  if (!form) {
+    throw new Error('useFormContext must be used within a FormProvider');
+  }
+  return useTrackedForm(form.store);
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFormStore } from './createFormStore';
+import { fromFormData, toFormData, toSearchParams } from './formData';
+import type { FieldCodecs } from './types';
+
+type SearchForm = {
+  q: string;
+  page: number;
+  inStock: boolean;
+  tags: string[];
+  since: Date | null;
+  price: { min: number; max: number };
+};
+
+const defaultValues: SearchForm = {
+  q: '',
+  page: 1,
+  inStock: false,
+  tags: [],
+  since: null,
+  price: { min: 0, max: 100 },
+};
+
+const codecs: FieldCodecs<SearchForm> = {
+  page: { as: 'number' },
+  inStock: { as: 'checkbox' },
+  tags: { as: 'multiple' },
+  since: {
+    encode: (value) => (value ? value.toISOString().slice(0, 10) : ''),
+    decode: ([input = '']) => {
+      if (input === '') return { value: null };
+      const value = new Date(input);
+      return Number.isNaN(value.getTime()) ? { error: 'Invalid date' } : { value };
+    },
+  },
+  'price.min': { as: 'number' },
+  'price.max': { as: 'number' },
+};
+
+describe('formData', () => {
+  it('toFormDataとfromFormDataで値を往復できる', () => {
+    const values: SearchForm = {
+      q: 'shoes',
+      page: 2,
+      inStock: true,
+      tags: ['sale', 'new'],
+      since: new Date('2024-05-01'),
+      price: { min: 10, max: 50 },
+    };
+
+    const formData = toFormData(values, codecs);
+    expect(formData.getAll('tags')).toEqual(['sale', 'new']);
+    expect(formData.get('price.min')).toBe('10');
+    expect(formData.get('since')).toBe('2024-05-01');
+
+    expect(fromFormData(formData, codecs, defaultValues)).toEqual({ values, errors: {} });
+  });
+
+  it('toSearchParamsはクエリ文字列にし、null・undefinedのフィールドは含めない', () => {
+    const params = toSearchParams({ ...defaultValues, q: 'red shoes', tags: ['a', 'b'] }, codecs);
+
+    expect(params.toString()).toBe(
+      'q=red+shoes&page=1&inStock=false&tags=a&tags=b&price.min=0&price.max=100'
+    );
+  });
+
+  it('decodeできない値はvaluesに含めず、フィールドのエラーにする', () => {
+    const params = new URLSearchParams('q=shoes&page=abc&since=someday&price.max=50');
+
+    expect(fromFormData(params, codecs, defaultValues)).toEqual({
+      values: { q: 'shoes', price: { max: 50 } },
+      errors: { page: 'Must be a number', since: 'Invalid date' },
+    });
+  });
+
+  it('フォームのフィールドでないエントリーは読まない', () => {
+    const formData = new FormData();
+    formData.append('csrf', 'token');
+    formData.append('q', 'shoes');
+    formData.append('page', '2');
+
+    expect(fromFormData(formData, codecs, defaultValues).values).toEqual({ q: 'shoes', page: 2 });
+  });
+
+  describe('syncWithSearchParams', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      window.history.replaceState(null, '', '/');
+    });
+
+    it('マウント時にURLのクエリを読み込み、decodeできない値はエラーにする', async () => {
+      window.history.replaceState(null, '', '/search?q=shoes&page=x&tags=a&tags=b&utm=mail');
+      const store = createFormStore({
+        defaultValues,
+        syncWithSearchParams: { codecs },
+        messages: { invalidNumber: 'Page must be a number' },
+      });
+
+      await store.hydrate();
+
+      expect(store.getState()).toMatchObject({
+        values: { ...defaultValues, q: 'shoes', tags: ['a', 'b'] },
+        errors: { page: 'Page must be a number' },
+        dirtyFields: { q: true, tags: true },
+      });
+    });
+
+    it('defaultValuesから変わったフィールドだけをURLに書き込む', () => {
+      window.history.replaceState(null, '', '/search?utm=mail#results');
+      const store = createFormStore({ defaultValues, syncWithSearchParams: { codecs } });
+
+      store.setValue('q', 'red shoes');
+      store.setValue('price.max', 50);
+      // debounce の間は書き換えない
+      expect(window.location.search).toBe('?utm=mail');
+
+      vi.advanceTimersByTime(300);
+      expect(window.location.pathname + window.location.search + window.location.hash).toBe(
+        '/search?utm=mail&q=red+shoes&price.max=50#results'
+      );
+
+      // defaultValues に戻るとクエリから消える（フォームのものでないクエリは残す）
+      store.reset();
+      vi.advanceTimersByTime(300);
+      expect(window.location.search).toBe('?utm=mail');
+    });
+
+    it('string だけのフォームは true で有効にできる', async () => {
+      window.history.replaceState(null, '', '/?keyword=hats');
+      const store = createFormStore({ defaultValues: { keyword: '' }, syncWithSearchParams: true });
+
+      await store.hydrate();
+      expect(store.getState().values).toEqual({ keyword: 'hats' });
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { collectFields } from './dirty';
+import { formatFieldError } from './fieldErrors';
+import { resolveInputParser } from './inputParsers';
+import { setByPath } from './path';
+import type {
+  DecodedFormData,
+  DeepPartial,
+  Errors,
+  FieldCodec,
+  FieldCodecOption,
+  FieldCodecs,
+  FieldErrorInput,
+  InputParser,
+} from './types';
+
+type Codec = FieldCodec<unknown>;
+
+// registerInput のパーサーは1つのエントリーを変換する
+const fromParser = ({ parse, format }: Required<InputParser<unknown>>): Codec => ({
+  encode: format,
+  decode: ([input = '']) => parse(input),
+});
+
+const textCodec = fromParser(resolveInputParser(undefined));
+
+const checkboxCodec: Codec = {
+  encode: (value) => String(value === true),
+  decode: ([input = '']) => ({ value: input !== '' && input !== 'false' }),
+};
+
+const multipleCodec: Codec = {
+  encode: (value) => (Array.isArray(value) ? value.map(String) : []),
+  decode: (inputs) => ({ value: [...inputs] }),
+};
+
+function resolveCodec(option: FieldCodecOption<never> | undefined): Codec {
+  if (!option) return textCodec;
+  if (!('as' in option)) return option as unknown as Codec;
+
+  switch (option.as) {
+    case 'number':
+    case 'date':
+      return fromParser(resolveInputParser(option));
+    case 'checkbox':
+      return checkboxCodec;
+    case 'multiple':
+      return multipleCodec;
+  }
+}
+
+const getCodec = (codecs: unknown, path: string) =>
+  resolveCodec((codecs as Partial<Record<string, FieldCodecOption<never>>> | undefined)?.[path]);
+
+/**
+ * values を FormData のキー（ドット区切りのパス）と文字列の組にする。null / undefined のフィールドは含めない
+ */
+export function encodeFields(values: unknown, codecs: unknown): Array<[string, string]> {
+  return collectFields(values).flatMap(([path, value]) => {
+    if (value == null) return [];
+    const encoded = getCodec(codecs, path).encode(value);
+    const inputs: ReadonlyArray<string> = typeof encoded === 'string' ? [encoded] : encoded;
+    return inputs.map((input): [string, string] => [path, input]);
+  });
+}
+
+/**
+ * paths のエントリーを decode して base に重ねる。ファイルのエントリーは読まない
+ */
+export function decodeFields<T>(
+  source: FormData | URLSearchParams,
+  codecs: unknown,
+  paths: ReadonlyArray<string>,
+  base: T
+): { values: T; errors: Partial<Record<string, string | FieldErrorInput>> } {
+  const errors: Partial<Record<string, string | FieldErrorInput>> = {};
+  const values = paths.reduce((result, path) => {
+    const inputs = source
+      .getAll(path)
+      .filter((input): input is string => typeof input === 'string');
+    if (!inputs.length) return result;
+
+    const decoded = getCodec(codecs, path).decode(inputs);
+    if ('error' in decoded) {
+      errors[path] = decoded.error;
+      return result;
+    }
+    return setByPath(result as Record<string, unknown>, path, decoded.value as never) as T;
+  }, base);
+  return { values, errors };
+}
+
+/**
+ * values を FormData にする（フォームをそのまま送信する場合や fetch の body 向け）
+ */
+export function toFormData<TValues extends Record<string, unknown>>(
+  values: TValues,
+  codecs: FieldCodecs<NoInfer<TValues>>
+): FormData {
+  const formData = new FormData();
+  encodeFields(values, codecs).forEach(([key, input]) => formData.append(key, input));
+  return formData;
+}
+
+/**
+ * values をクエリ文字列にする（共有用の URL を組み立てる場合など）
+ */
+export function toSearchParams<TValues extends Record<string, unknown>>(
+  values: TValues,
+  codecs: FieldCodecs<NoInfer<TValues>>
+): URLSearchParams {
+  return new URLSearchParams(encodeFields(values, codecs));
+}
+
+/**
+ * FormData / URLSearchParams を values に戻す。エントリーのないフィールドは values に含まれない。
+ * 読むのは defaultValues のフィールドと codecs のキーだけ（csrf トークンなどフォームのものでない
+ * エントリーは無視する）。decode できなかったフィールドのエラーは既定の表示文字列になる
+ */
+export function fromFormData<TValues extends Record<string, unknown>>(
+  formData: FormData | URLSearchParams,
+  codecs: FieldCodecs<TValues>,
+  defaultValues: TValues
+): DecodedFormData<TValues> {
+  const fieldPaths = collectFields(defaultValues).map(([path]) => path);
+  const paths = [...new Set([...Object.keys(codecs), ...fieldPaths])];
+  const { values, errors } = decodeFields(formData, codecs, paths, {});
+
+  const messages: Partial<Record<string, string>> = {};
+  Object.entries(errors).forEach(([path, error]) => {
+    if (error === undefined) return;
+    messages[path] =
+      typeof error === 'string' ? error : formatFieldError(error, undefined, undefined);
+  });
+  return { values: values as DeepPartial<TValues>, errors: messages as Errors<TValues> };
+}
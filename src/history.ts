@@ -0,0 +1,72 @@
+import type { FormState, HistoryOptions } from './types';
+
+/**
+ * undo で戻す状態（値と、その時点の touched / エラー）
+ */
+export type HistorySnapshot<TValues extends Record<string, unknown>> = Pick<
+  FormState<TValues>,
+  'values' | 'touched' | 'errorDetails'
+>;
+
+/**
+ * history オプションに従って値の変更を記録する
+ * 同じフィールドへの連続した入力は、mergeWindow 以内なら1つの履歴にまとめる
+ */
+export function createHistory<TValues extends Record<string, unknown>>(
+  getOptions: () => boolean | HistoryOptions | undefined
+) {
+  let past: Array<HistorySnapshot<TValues>> = [];
+  let future: Array<HistorySnapshot<TValues>> = [];
+  // 最後に記録した変更（key が null の変更はまとめない）
+  let last: { key: string; at: number } | null = null;
+
+  const resolveOptions = () => {
+    const options = getOptions();
+    if (!options) return null;
+    const { limit = 100, mergeWindow = 500 } = options === true ? {} : options;
+    return { limit, mergeWindow };
+  };
+
+  /**
+   * 変更する直前の状態を記録する
+   */
+  const record = (key: string | null, snapshot: HistorySnapshot<TValues>) => {
+    const options = resolveOptions();
+    if (!options) return;
+
+    const now = Date.now();
+    const merge = key !== null && last?.key === key && now - last.at <= options.mergeWindow;
+    last = key === null ? null : { key, at: now };
+    future = [];
+    if (merge) return;
+    past = [...past, snapshot].slice(-options.limit);
+  };
+
+  const undo = (current: HistorySnapshot<TValues>) => {
+    if (!past.length) return null;
+    const snapshot = past[past.length - 1];
+    past = past.slice(0, -1);
+    future = [current, ...future];
+    last = null;
+    return snapshot;
+  };
+
+  const redo = (current: HistorySnapshot<TValues>) => {
+    if (!future.length) return null;
+    const [snapshot, ...rest] = future;
+    future = rest;
+    past = [...past, current];
+    last = null;
+    return snapshot;
+  };
+
+  const clear = () => {
+    past = [];
+    future = [];
+    last = null;
+  };
+
+  const flags = () => ({ canUndo: past.length > 0, canRedo: future.length > 0 });
+
+  return { record, undo, redo, clear, flags };
+}
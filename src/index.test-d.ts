@@ -1,6 +1,34 @@
 import { expectType, expectError, expectAssignable } from 'tsd';
+import type { ChangeEventHandler, RefCallback } from 'react';
 import { useForm } from './useForm';
-import type { Validators, RegisterReturn, UseFormReturn } from './types';
+import { useFieldArray } from './useFieldArray';
+import { useWatch } from './useWatch';
+import { useFormState } from './useFormState';
+import { useController } from './useController';
+import { FormProvider, useFormContext } from './formContext';
+import type {
+  Validators,
+  RegisterReturn,
+  UseFormReturn,
+  Path,
+  PathValue,
+  ArrayPath,
+  FieldArrayRow,
+  Errors,
+  FieldError,
+  FormPlugin,
+  FormStore,
+  ComputedPath,
+  FieldCodecs,
+  DecodedFormData,
+} from './types';
+import type { StandardSchemaV1 } from './standardSchema';
+import { compose, email, max, maxLength, min, minLength, pattern, required, when } from './validators';
+import type { Rule } from './validators';
+import { createLoggerPlugin } from './loggerPlugin';
+import { fromFormData, toFormData, toSearchParams } from './formData';
+import { blurAll, expectErrors, fillForm, submit } from './testing';
+import type { SubmitOutcome } from './testing';
 
 // ===================================================================
 // テスト1: useForm の基本的な型推論
@@ -164,12 +192,12 @@ const passwordValidators: Validators<PasswordForm> = {
 // ===================================================================
 
 // validateField は存在するキーのみ受け入れる
-expectType<boolean>(simpleForm.validateField('username'));
-expectType<boolean>(simpleForm.validateField('age'));
+expectType<Promise<boolean>>(simpleForm.validateField('username'));
+expectType<Promise<boolean>>(simpleForm.validateField('age'));
 expectError(simpleForm.validateField('invalid'));
 
-// validateAll は boolean を返す
-expectType<boolean>(simpleForm.validateAll());
+// validateAll は Promise<boolean> を返す
+expectType<Promise<boolean>>(simpleForm.validateAll());
 
 // ===================================================================
 // テスト10: reset の型安全性
@@ -197,5 +225,884 @@ const handleSubmit = simpleForm.handleSubmit((values) => {
   expectType<number>(values.age);
 });
 
-// handleSubmit は関数を返す
-expectType<(e?: unknown) => void>(handleSubmit);
+// handleSubmit は Promise を返す関数を返す
+expectType<(e?: unknown) => Promise<void>>(handleSubmit);
+
+// onValid は非同期関数でもよい
+simpleForm.handleSubmit(async (values) => {
+  expectType<SimpleForm>(values);
+});
+
+// ===================================================================
+// テスト12: 非同期バリデータの型安全性
+// ===================================================================
+
+const asyncValidators: Validators<SimpleForm> = {
+  username: async (value, _values, { signal }) => {
+    expectType<string>(value);
+    expectType<AbortSignal>(signal);
+    return value === 'taken' ? 'Already taken' : null;
+  },
+};
+
+// Promise でも ValidatorResult 以外は返せない
+expectError<Validators<SimpleForm>>({
+  username: async () => 123,
+});
+
+// isValidating はフィールドごと、isSubmitting は boolean
+expectType<boolean | undefined>(simpleForm.isValidating.username);
+expectType<boolean>(simpleForm.isSubmitting);
+
+// ===================================================================
+// テスト13: ネストしたパスの型安全性
+// ===================================================================
+
+type ProfileForm = {
+  name: string;
+  tags: string[];
+  user: {
+    birthday: Date;
+    address: { city: string; zip: number | null };
+  };
+};
+
+// 途中のオブジェクトと末端のフィールドがすべてパスになる（Date は辿らない）
+expectType<
+  | 'name'
+  | 'tags'
+  | `tags.${number}`
+  | 'user'
+  | 'user.birthday'
+  | 'user.address'
+  | 'user.address.city'
+  | 'user.address.zip'
+>({} as Path<ProfileForm>);
+
+// フラットなフォームでは keyof と一致する
+expectType<'username' | 'age'>({} as Path<SimpleForm>);
+
+// パスから値の型が決まる
+expectType<string>({} as PathValue<ProfileForm, 'user.address.city'>);
+expectType<number | null>({} as PathValue<ProfileForm, 'user.address.zip'>);
+expectType<{ city: string; zip: number | null }>({} as PathValue<ProfileForm, 'user.address'>);
+
+const profileForm = useForm<ProfileForm>({
+  defaultValues: {
+    name: '',
+    tags: [],
+    user: { birthday: new Date(), address: { city: '', zip: null } },
+  },
+});
+
+expectType<RegisterReturn<ProfileForm, 'user.address.city'>>(
+  profileForm.register('user.address.city')
+);
+expectType<string>(profileForm.register('user.address.city').value);
+expectType<Date>(profileForm.register('user.birthday').value);
+
+profileForm.setValue('user.address.zip', 1000001);
+expectError(profileForm.setValue('user.address.zip', '100-0001'));
+expectError(profileForm.register('user.address.country'));
+expectError(profileForm.register('user.birthday.getTime'));
+
+// errors / touched / validators も同じパスで指定する
+expectType<string | undefined>(profileForm.errors['user.address.city']);
+expectType<boolean | undefined>(profileForm.touched['user.address.city']);
+
+const profileValidators: Validators<ProfileForm> = {
+  'user.address.zip': (value, values) => {
+    expectType<number | null>(value);
+    expectType<ProfileForm>(values);
+    return value === null ? 'Required' : null;
+  },
+};
+
+expectError<Validators<ProfileForm>>({
+  'user.address.city': (value: number) => null,
+});
+
+// ===================================================================
+// テスト14: useFieldArray の型安全性
+// ===================================================================
+
+type InvoiceForm = {
+  title: string;
+  tags: string[];
+  items: Array<{ description: string; price: number }>;
+};
+
+const invoiceForm = useForm<InvoiceForm>({
+  defaultValues: { title: '', tags: [], items: [] },
+});
+
+// 値が配列のパスだけが ArrayPath になる
+expectType<'tags' | 'items'>({} as ArrayPath<InvoiceForm>);
+
+const items = useFieldArray(invoiceForm, 'items');
+expectType<Array<FieldArrayRow<{ description: string; price: number }>>>(items.fields);
+
+items.append({ description: '', price: 0 });
+expectError(items.append({ description: '' }));
+expectError(items.append('text'));
+
+// 配列でないフィールドは渡せない
+expectError(useFieldArray(invoiceForm, 'title'));
+
+// 行のフィールドは index 付きのパスで扱う
+const index = 0 as number;
+expectType<number>(invoiceForm.register(`items.${index}.price`).value);
+expectError(invoiceForm.setValue(`items.${index}.price`, 'free'));
+expectType<string | undefined>(invoiceForm.errors[`items.${index}.description`]);
+
+// ===================================================================
+// テスト15: useWatch / useFormState の型安全性
+// ===================================================================
+
+// 単一のパスはその値の型、配列はタプルになる
+expectType<string>(useWatch(profileForm, 'user.address.city'));
+expectType<readonly [string, number | null]>(
+  useWatch(profileForm, ['user.address.city', 'user.address.zip'])
+);
+expectError(useWatch(profileForm, 'user.address.country'));
+expectError(useWatch(profileForm, ['name', 'invalid']));
+
+// 購読した状態・フィールドだけに絞られる
+const subscribed = useFormState(simpleForm, { errors: true, touched: ['username'] });
+expectType<Errors<SimpleForm>>(subscribed.errors);
+expectType<{ username?: boolean }>(subscribed.touched);
+expectError(subscribed.isSubmitting);
+expectError(subscribed.touched.age);
+
+expectError(useFormState(simpleForm, { touched: ['invalid'] }));
+
+// ===================================================================
+// テスト16: resolver（Standard Schema）の型推論
+// ===================================================================
+
+declare const signupSchema: StandardSchemaV1<{ email: string; age: number }>;
+
+// TValues はスキーマの入力型から推論される
+const schemaForm = useForm({
+  resolver: signupSchema,
+  defaultValues: { email: '', age: 0 },
+});
+expectType<{ email: string; age: number }>(schemaForm.values);
+expectError(schemaForm.setValue('age', '20'));
+
+// defaultValues はスキーマの入力型に合わせる必要がある
+expectError(
+  useForm({
+    resolver: signupSchema,
+    defaultValues: { email: '', age: '0' },
+  })
+);
+
+// validators と併用できる
+useForm({
+  resolver: signupSchema,
+  defaultValues: { email: '', age: 0 },
+  validators: {
+    email: (value) => {
+      expectType<string>(value);
+      return null;
+    },
+  },
+});
+
+// 入力型が合わないスキーマは渡せない
+expectError(
+  useForm<SimpleForm>({
+    defaultValues: { username: '', age: 0 },
+    resolver: signupSchema,
+  })
+);
+
+// ===================================================================
+// テスト17: dirty の型安全性
+// ===================================================================
+
+expectType<boolean>(profileForm.isDirty);
+expectType<boolean | undefined>(profileForm.dirtyFields['user.address.city']);
+
+// 変更されたフィールドだけなので、ネストしたオブジェクトも含めて省略可能になる
+const dirtyValues = profileForm.getDirtyValues();
+expectType<string | undefined>(dirtyValues.user?.address?.city);
+expectType<string[] | undefined>(dirtyValues.tags);
+
+// isEqual の引数はフィールドの型になる
+useForm<ProfileForm>({
+  defaultValues: profileForm.values,
+  isEqual: {
+    'user.birthday': (a, b) => {
+      expectType<Date>(a);
+      return a.toDateString() === b.toDateString();
+    },
+  },
+});
+
+expectError(
+  useForm<ProfileForm>({
+    defaultValues: profileForm.values,
+    isEqual: { 'user.address.city': (a: number, b: number) => a === b },
+  })
+);
+
+// ===================================================================
+// テスト18: フォーム全体のバリデータと root エラー
+// ===================================================================
+
+type BookingForm = { startDate: string; endDate: string };
+
+useForm<BookingForm>({
+  defaultValues: { startDate: '', endDate: '' },
+  validate: (values) => {
+    expectType<BookingForm>(values);
+    return values.startDate > values.endDate
+      ? { startDate: 'Too late', endDate: 'Too early', root: 'Invalid range' }
+      : {};
+  },
+});
+
+// 存在しないフィールドにはエラーを設定できない
+expectError(
+  useForm<BookingForm>({
+    defaultValues: { startDate: '', endDate: '' },
+    validate: () => ({ invalid: 'error' }),
+  })
+);
+
+expectType<string | undefined>(simpleForm.errors.root);
+
+// ===================================================================
+// テスト19: 構造化エラーと errorDetails
+// ===================================================================
+
+useForm<SimpleForm>({
+  defaultValues: { username: '', age: 0 },
+  validators: {
+    username: (value) => [
+      value.length >= 3 ? null : { type: 'minLength', params: { min: 3 } },
+      /^[a-z]+$/.test(value) ? null : 'Lowercase letters only',
+    ].filter((error) => error !== null),
+    age: (value) => (value >= 18 ? null : { type: 'min', message: 'Too young' }),
+  },
+  criteriaMode: 'all',
+  messages: {
+    minLength: 'At least {min} characters',
+    min: (params, locale) => `${String(params.min)} (${locale ?? 'default'})`,
+  },
+});
+
+// type のないエラーオブジェクトは返せない
+expectError(
+  useForm<SimpleForm>({
+    defaultValues: { username: '', age: 0 },
+    validators: { username: () => ({ message: 'Required' }) },
+  })
+);
+
+expectError(
+  useForm<SimpleForm>({
+    defaultValues: { username: '', age: 0 },
+    criteriaMode: 'every',
+  })
+);
+
+expectType<FieldError[] | undefined>(simpleForm.errorDetails.username);
+expectType<FieldError[] | undefined>(simpleForm.errorDetails.root);
+expectError(simpleForm.errorDetails.invalid);
+
+// ===================================================================
+// テスト20: setError / clearErrors と送信時のエラー
+// ===================================================================
+
+simpleForm.setError('username', 'Already taken');
+simpleForm.setError('root', { type: 'server', message: 'Server is busy' });
+simpleForm.clearErrors();
+simpleForm.clearErrors('age');
+simpleForm.clearErrors(['username', 'root']);
+
+expectError(simpleForm.setError('invalid', 'error'));
+expectError(simpleForm.clearErrors(['username', 'invalid']));
+
+simpleForm.handleSubmit(
+  async (values) => {
+    expectType<SimpleForm>(values);
+    return { username: 'Already taken', root: 'Try again' };
+  },
+  (errors) => {
+    expectType<Errors<SimpleForm>>(errors);
+  }
+);
+
+// 存在しないフィールドのエラーは返せない
+expectError(simpleForm.handleSubmit(async () => ({ invalid: 'error' })));
+
+// ===================================================================
+// テスト21: 送信の状態
+// ===================================================================
+
+expectType<number>(simpleForm.submitCount);
+expectType<boolean>(simpleForm.isSubmitted);
+expectType<boolean>(simpleForm.isSubmitSuccessful);
+expectType<unknown>(simpleForm.submitError);
+
+useForm({ defaultValues: { username: '' }, preventDoubleSubmit: true });
+
+const submitState = useFormState(simpleForm, { submitCount: true, isSubmitSuccessful: true });
+expectType<number>(submitState.submitCount);
+expectType<boolean>(submitState.isSubmitSuccessful);
+
+// ===================================================================
+// テスト22: registerInput
+// ===================================================================
+
+type SettingsForm = {
+  nickname: string;
+  age: number;
+  birthday: Date;
+  newsletter: boolean;
+  plan: 'free' | 'pro';
+  tags: string[];
+};
+declare const settingsForm: UseFormReturn<SettingsForm>;
+
+// string のフィールドはオプションなしで使える
+expectType<string>(settingsForm.registerInput('nickname').value);
+settingsForm.registerInput('nickname').onChange({ target: { value: 'john' } });
+
+settingsForm.registerInput('age', { as: 'number' });
+settingsForm.registerInput('birthday', { as: 'date' });
+settingsForm.registerInput('plan', { as: 'select' });
+expectType<boolean>(settingsForm.registerInput('newsletter', { as: 'checkbox' }).checked);
+settingsForm.registerInput('tags', {
+  parse: (input) => ({ value: input.split(',') }),
+  format: (value) => {
+    expectType<string[]>(value);
+    return value.join(',');
+  },
+});
+
+// string 以外のフィールドでは parse か as が必須
+expectError(settingsForm.registerInput('age'));
+expectError(settingsForm.registerInput('plan'));
+expectError(settingsForm.registerInput('tags'));
+
+// as はフィールドの型に合うものだけ
+expectError(settingsForm.registerInput('nickname', { as: 'number' }));
+expectError(settingsForm.registerInput('age', { as: 'date' }));
+expectError(settingsForm.registerInput('age', { as: 'checkbox' }));
+
+// parse は フィールドの型の値を返す必要がある
+expectError(settingsForm.registerInput('age', { parse: (input) => ({ value: input }) }));
+
+// React の入力要素の props にそのまま渡せる
+expectAssignable<ChangeEventHandler<HTMLInputElement>>(
+  settingsForm.registerInput('age', { as: 'number' }).onChange
+);
+expectAssignable<ChangeEventHandler<HTMLSelectElement>>(
+  settingsForm.registerInput('plan', { as: 'select' }).onChange
+);
+expectAssignable<ChangeEventHandler<HTMLTextAreaElement>>(
+  settingsForm.registerInput('nickname').onChange
+);
+expectAssignable<ChangeEventHandler<HTMLInputElement>>(
+  settingsForm.registerInput('newsletter', { as: 'checkbox' }).onChange
+);
+
+// ===================================================================
+// テスト23: persist
+// ===================================================================
+
+type AccountForm = { email: string; password: string; profile: { name: string } };
+
+useForm<AccountForm>({
+  defaultValues: { email: '', password: '', profile: { name: '' } },
+  persist: {
+    key: 'account',
+    storage: sessionStorage,
+    exclude: ['password', 'profile.name'],
+    version: 2,
+    migrate: (values, version) => (version === 1 ? { email: String(values) } : null),
+  },
+});
+
+// 非同期のストレージも渡せる
+useForm<AccountForm>({
+  defaultValues: { email: '', password: '', profile: { name: '' } },
+  persist: {
+    key: 'account',
+    storage: {
+      getItem: async () => null,
+      setItem: async () => {},
+      removeItem: async () => {},
+    },
+  },
+});
+
+// 存在しないフィールドは除外できない
+expectError(
+  useForm<AccountForm>({
+    defaultValues: { email: '', password: '', profile: { name: '' } },
+    persist: { key: 'account', exclude: ['token'] },
+  })
+);
+
+// migrate は TValues の形の下書きを返す
+expectError(
+  useForm<AccountForm>({
+    defaultValues: { email: '', password: '', profile: { name: '' } },
+    persist: { key: 'account', migrate: () => ({ email: 1 }) },
+  })
+);
+
+// ===================================================================
+// テスト24: history
+// ===================================================================
+
+const articleForm = useForm({
+  defaultValues: { title: '', body: '' },
+  history: { limit: 50, mergeWindow: 1000 },
+});
+expectType<boolean>(articleForm.canUndo);
+expectType<boolean>(articleForm.canRedo);
+expectType<() => void>(articleForm.undo);
+expectType<() => void>(articleForm.redo);
+
+useForm({ defaultValues: { title: '' }, history: true });
+expectError(useForm({ defaultValues: { title: '' }, history: { size: 10 } }));
+
+// ===================================================================
+// テスト25: 条件付きのフィールドと判別可能なユニオン
+// ===================================================================
+
+type AccountTypeForm =
+  | { accountType: 'personal'; name: string }
+  | { accountType: 'business'; name: string; companyName: string };
+
+const accountForm = useForm<AccountTypeForm>({
+  defaultValues: { accountType: 'personal', name: '' },
+  validators: {
+    companyName: (value) => {
+      expectType<string>(value);
+      return value ? null : 'Required';
+    },
+  },
+  fields: {
+    companyName: { when: (values) => values.accountType === 'business' },
+    name: { disabled: (values) => values.accountType === 'business', hidden: false },
+  },
+});
+
+// どちらかのメンバーにあるフィールドはすべて扱える
+accountForm.setValue('companyName', 'Acme');
+accountForm.setValue('accountType', 'business');
+expectError(accountForm.setValue('accountType', 'enterprise'));
+
+// onValid では判別子で絞り込める
+accountForm.handleSubmit((values) => {
+  if (values.accountType === 'business') {
+    expectType<string>(values.companyName);
+  } else {
+    expectError(values.companyName);
+  }
+});
+
+expectError(
+  useForm<AccountTypeForm>({
+    defaultValues: { accountType: 'personal', name: '' },
+    fields: { vatId: { hidden: true } },
+  })
+);
+
+// ===================================================================
+// テスト26: 組み込みのバリデータ
+// ===================================================================
+
+type RulesForm = {
+  name: string;
+  age: number;
+  nickname: string | null;
+  tags: string[];
+  agreed: boolean;
+  companyName: string;
+  isBusiness: boolean;
+};
+
+useForm<RulesForm>({
+  defaultValues: {
+    name: '',
+    age: 0,
+    nickname: null,
+    tags: [],
+    agreed: false,
+    companyName: '',
+    isBusiness: false,
+  },
+  validators: {
+    name: compose(required(), minLength(2), maxLength(20), pattern(/^[a-z]+$/i)),
+    age: compose(required(), min(18), max(120)),
+    nickname: minLength(3),
+    tags: compose(minLength(1), maxLength(5)),
+    agreed: required('You must agree'),
+    companyName: when((values) => {
+      expectType<RulesForm>(values);
+      return values.isBusiness;
+    }, compose(required(), email())),
+  },
+});
+
+// minLength は string / 配列、min は number のフィールドにしか使えない
+expectError(useForm<RulesForm>({ defaultValues: {} as RulesForm, validators: { age: minLength(2) } }));
+expectError(useForm<RulesForm>({ defaultValues: {} as RulesForm, validators: { name: min(2) } }));
+expectError(useForm<RulesForm>({ defaultValues: {} as RulesForm, validators: { tags: email() } }));
+expectError(
+  useForm<RulesForm>({
+    defaultValues: {} as RulesForm,
+    validators: { age: compose(required(), minLength(2)) },
+  })
+);
+
+expectAssignable<Rule<string>>(compose(required(), email()));
+
+// ===================================================================
+// テスト27: ref とフォーカス
+// ===================================================================
+
+// React の ref にそのまま渡せる
+expectAssignable<RefCallback<HTMLInputElement>>(simpleForm.register('username').ref);
+expectAssignable<RefCallback<HTMLSelectElement>>(
+  settingsForm.registerInput('plan', { as: 'select' }).ref
+);
+
+simpleForm.setFocus('username');
+simpleForm.setFocus('age', { scroll: { behavior: 'smooth', block: 'center' } });
+expectError(simpleForm.setFocus('invalid'));
+
+useForm({ defaultValues: { username: '' }, shouldFocusError: false });
+useForm({ defaultValues: { username: '' }, shouldFocusError: { scroll: true } });
+
+// ===================================================================
+// テスト28: プラグイン
+// ===================================================================
+
+const simplePlugin: FormPlugin<SimpleForm> = {
+  beforeChange: (change) => {
+    // name で絞り込むと value の型も決まる
+    if (change.name === 'username') {
+      expectType<string>(change.value);
+      return { name: 'username', value: change.value.trim() };
+    }
+    expectType<number>(change.value);
+  },
+  onEvent: (event, state) => {
+    expectType<SimpleForm>(state.values);
+    if (event.type === 'change' && event.name === 'age') {
+      expectType<number>(event.value);
+    }
+    if (event.type === 'submitFailure') {
+      expectType<unknown>(event.error);
+    }
+  },
+};
+
+useForm({ defaultValues: { username: '', age: 0 }, plugins: [simplePlugin, createLoggerPlugin()] });
+
+// 名前と値の組み合わせが合わない変更は返せない
+expectError<FormPlugin<SimpleForm>>({
+  beforeChange: () => ({ name: 'age', value: 'twenty' }),
+});
+expectError<FormPlugin<SimpleForm>>({
+  beforeChange: () => ({ name: 'invalid', value: '' }),
+});
+
+// 別のフォームのプラグインは渡せない
+expectError(
+  useForm({ defaultValues: { email: '' }, plugins: [simplePlugin] })
+);
+
+// ===================================================================
+// テスト29: 入力と出力の型（transform / スキーマの出力）
+// ===================================================================
+
+type AgeInput = { name: string; age: string };
+type AgeOutput = { name: string; age: number };
+
+// transform の戻り値が onValid の型になる
+const transformForm = useForm({
+  defaultValues: { name: '', age: '' },
+  transform: (values) => {
+    expectType<AgeInput>(values);
+    return { name: values.name, age: Number(values.age) };
+  },
+});
+expectType<AgeInput>(transformForm.values);
+expectError(transformForm.setValue('age', 20));
+transformForm.handleSubmit((values) => {
+  expectType<{ name: string; age: number }>(values);
+});
+
+// onValid が入力型を受け取ることはできない
+expectError(transformForm.handleSubmit((values: AgeInput) => void values));
+
+// 型引数を明示すると transform の戻り値が検査される
+const explicitForm = useForm<AgeInput, AgeOutput>({
+  defaultValues: { name: '', age: '' },
+  transform: (values) => ({ ...values, age: Number(values.age) }),
+});
+expectType<UseFormReturn<AgeInput, AgeOutput>>(explicitForm);
+expectError(
+  useForm<AgeInput, AgeOutput>({
+    defaultValues: { name: '', age: '' },
+    transform: (values) => values,
+  })
+);
+// 出力の型が入力と違えば、transform か resolver が必要
+expectError(useForm<AgeInput, AgeOutput>({ defaultValues: { name: '', age: '' } }));
+
+// 出力が入力と違うスキーマでは、onValid にスキーマの出力型が渡される
+declare const ageSchema: StandardSchemaV1<AgeInput, AgeOutput>;
+const ageSchemaForm = useForm({ resolver: ageSchema, defaultValues: { name: '', age: '' } });
+expectType<AgeInput>(ageSchemaForm.values);
+ageSchemaForm.handleSubmit((values) => {
+  expectType<AgeOutput>(values);
+});
+expectError(ageSchemaForm.handleSubmit((values: AgeInput) => void values));
+expectType<UseFormReturn<AgeInput, AgeOutput>>(
+  useForm<AgeInput, AgeOutput>({ defaultValues: { name: '', age: '' }, resolver: ageSchema })
+);
+
+// スキーマと transform は同時に使えない（出力の型が決まらないため）
+expectError(
+  useForm({
+    resolver: ageSchema,
+    defaultValues: { name: '', age: '' },
+    transform: (values: AgeInput) => values,
+  })
+);
+
+// サーバーのエラーは入力のフィールドに対して返す
+transformForm.handleSubmit(() => ({ age: 'Too young' }));
+expectError(transformForm.handleSubmit(() => ({ invalid: 'Error' })));
+
+// 出力の型が違うフォームも useWatch / useFormState / useFieldArray に渡せる
+expectType<string>(useWatch(transformForm, 'age'));
+expectType<Partial<Record<'age', string>>>(useFormState(explicitForm, { errors: ['age'] }).errors);
+
+// ===================================================================
+// テスト30: FormProvider / useFormContext / useController
+// ===================================================================
+
+// 型引数で指定したフォームの型がそのまま使える
+const contextForm = useFormContext<SimpleForm>();
+expectType<UseFormReturn<SimpleForm>>(contextForm);
+expectType<number>(contextForm.values.age);
+expectError(contextForm.setValue('age', '20'));
+expectError(contextForm.register('invalid'));
+
+// FormProvider には useForm の戻り値を渡す
+FormProvider({ form: simpleForm });
+FormProvider({ form: transformForm });
+expectError(FormProvider({ form: { values: {} } }));
+
+const ageController = useController(simpleForm, 'age');
+expectType<RegisterReturn<SimpleForm, 'age'>>(ageController.field);
+expectType<number>(ageController.field.value);
+expectType<string | undefined>(ageController.error);
+expectType<boolean>(ageController.touched);
+expectType<boolean>(ageController.dirty);
+expectError(ageController.field.onChange('20'));
+expectError(useController(simpleForm, 'invalid'));
+
+// コンテキストから受け取ったフォームでもキーと値の型は結び付いたまま
+expectType<string>(useController(useFormContext<SimpleForm>(), 'username').field.value);
+expectType<string>(useController(transformForm, 'age').field.value);
+
+// ===================================================================
+// テスト31: テスト用のヘルパー（typed-form-core/testing）
+// ===================================================================
+
+type SignupFormWithProfile = { email: string; profile: { age: number } };
+declare const profileStore: FormStore<SignupFormWithProfile>;
+
+// 入力する値はフォームの型の一部（ネストしたフィールドも省略できる）
+fillForm(simpleForm, { age: 20 });
+fillForm(profileStore, { profile: {} });
+expectError(fillForm(simpleForm, { age: '20' }));
+expectError(fillForm(simpleForm, { invalid: '' }));
+expectError(fillForm(profileStore, { profile: { age: '20' } }));
+
+blurAll(profileStore);
+
+// submit の結果は onValid に渡される型（transform があればその出力）
+expectType<Promise<SubmitOutcome<SimpleForm>>>(submit(simpleForm));
+submit(transformForm).then((outcome) => {
+  if (outcome.ok) expectType<{ name: string; age: number }>(outcome.values);
+  else expectType<Errors<AgeInput>>(outcome.errors);
+});
+submit(transformForm, (values) => {
+  expectType<{ name: string; age: number }>(values);
+  return { age: 'Too young' };
+});
+
+expectErrors(simpleForm, { username: 'Required', root: 'Server error' });
+expectErrors(profileStore, { 'profile.age': 'Too young' });
+expectError(expectErrors(simpleForm, { invalid: 'Required' }));
+
+// ===================================================================
+// テスト32: 非同期の defaultValues / reset のオプション / resetField
+// ===================================================================
+
+declare function fetchProfile(): Promise<{ username: string; age: number }>;
+
+// 非同期の関数の戻り値から TValues が推論される
+const asyncForm = useForm({ defaultValues: fetchProfile });
+expectType<{ username: string; age: number }>(asyncForm.values);
+expectType<boolean>(asyncForm.isLoading);
+expectError(useForm<SimpleForm>({ defaultValues: async () => ({ username: '' }) }));
+
+simpleForm.reset(undefined, { keepDirty: true, keepErrors: true });
+simpleForm.reset({ username: '', age: 0 }, { keepTouched: true, keepDefaultValues: true });
+expectError(simpleForm.reset(undefined, { keepValues: true }));
+
+simpleForm.resetField('age');
+simpleForm.resetField('age', { defaultValue: 20 });
+expectError(simpleForm.resetField('age', { defaultValue: '20' }));
+expectError(simpleForm.resetField('invalid'));
+
+expectType<{ isLoading: boolean }>(useFormState(asyncForm, { isLoading: true }));
+
+// ===================================================================
+// テスト33: computed（readonly のフィールド）
+// ===================================================================
+
+type QuoteForm = {
+  quantity: number;
+  unitPrice: number;
+  readonly total: number;
+  lines: Array<{ amount: number }>;
+  readonly summary: { count: number };
+};
+
+const quoteForm = useForm<QuoteForm>({
+  defaultValues: { quantity: 1, unitPrice: 0, total: 0, lines: [], summary: { count: 0 } },
+  computed: {
+    total: {
+      deps: ['quantity', 'unitPrice'],
+      compute: (values) => {
+        expectType<QuoteForm>(values);
+        return values.quantity * values.unitPrice;
+      },
+    },
+    summary: { deps: ['lines'], compute: (values) => ({ count: values.lines.length }) },
+  },
+  validators: { total: (value) => (value > 1000 ? 'Too expensive' : null) },
+});
+
+// computed のフィールドも values で読める
+expectType<number>(quoteForm.values.total);
+expectType<number>(quoteForm.values.summary.count);
+expectType<'total' | 'summary' | 'summary.count'>({} as ComputedPath<QuoteForm>);
+
+// readonly のフィールド（とその配下）は書き込めない
+quoteForm.setValue('quantity', 2);
+quoteForm.setValue('lines.0.amount', 100);
+expectError(quoteForm.setValue('total', 100));
+expectError(quoteForm.setValue('summary.count', 1));
+expectError(quoteForm.register('total'));
+expectError(quoteForm.registerInput('total', { as: 'number' }));
+expectError(quoteForm.resetField('total'));
+expectError(useController(quoteForm, 'total'));
+
+// readonly の配列は useFieldArray / updateFieldArray でも書き換えられない
+type TaggedForm = { q: string; items: string[]; readonly tags: string[] };
+const taggedForm = useForm<TaggedForm>({
+  defaultValues: { q: '', items: [], tags: [] },
+  computed: { tags: { deps: ['q'], compute: (values) => values.q.split(' ') } },
+});
+useFieldArray(taggedForm, 'items');
+taggedForm.updateFieldArray('items', [], []);
+expectError(useFieldArray(taggedForm, 'tags'));
+expectError(taggedForm.updateFieldArray('tags', [], []));
+
+// 検証やエラーは他のフィールドと同じく扱える
+quoteForm.validateField('total');
+expectType<string | undefined>(quoteForm.errors.total);
+
+// computed に書けるのは readonly のフィールドだけで、compute の戻り値はそのフィールドの型
+expectError(
+  useForm<QuoteForm>({
+    defaultValues: { quantity: 1, unitPrice: 0, total: 0, lines: [], summary: { count: 0 } },
+    computed: { quantity: { deps: ['unitPrice'], compute: () => 1 } },
+  })
+);
+expectError(
+  useForm<QuoteForm>({
+    defaultValues: { quantity: 1, unitPrice: 0, total: 0, lines: [], summary: { count: 0 } },
+    computed: { total: { deps: ['quantity'], compute: () => '0' } },
+  })
+);
+expectError(
+  useForm<QuoteForm>({
+    defaultValues: { quantity: 1, unitPrice: 0, total: 0, lines: [], summary: { count: 0 } },
+    computed: { total: { deps: ['invalid'], compute: () => 0 } },
+  })
+);
+
+// ===================================================================
+// テスト34: FormData / URLSearchParams の codecs
+// ===================================================================
+
+type FilterForm = { q: string; page: number; tags: string[]; range: { from: Date } };
+
+const filterCodecs: FieldCodecs<FilterForm> = {
+  page: { as: 'number' },
+  tags: { as: 'multiple' },
+  'range.from': { as: 'date' },
+};
+
+// codec は TValues のフィールドの型に結び付く
+expectAssignable<FieldCodecs<FilterForm>>({
+  q: { encode: (value: string) => value.trim(), decode: ([input = '']) => ({ value: input }) },
+  page: {
+    encode: (value: number) => String(value),
+    decode: ([input = '']) => (/^\d+$/.test(input) ? { value: Number(input) } : { error: 'NaN' }),
+  },
+  tags: { as: 'multiple' },
+  'range.from': { as: 'date' },
+});
+expectError<FieldCodecs<FilterForm>>({ ...filterCodecs, page: { as: 'date' } });
+expectError<FieldCodecs<FilterForm>>({ ...filterCodecs, q: { as: 'number' } });
+expectError<FieldCodecs<FilterForm>>({
+  ...filterCodecs,
+  page: { encode: (value: string) => value, decode: () => ({ value: '1' }) },
+});
+
+// string 以外のフィールドの codec は省略できない
+expectError<FieldCodecs<FilterForm>>({ tags: { as: 'multiple' }, 'range.from': { as: 'date' } });
+expectAssignable<FieldCodecs<{ q: string; sort: 'asc' | 'desc' }>>({});
+
+const filterValues: FilterForm = { q: '', page: 1, tags: [], range: { from: new Date() } };
+expectType<FormData>(toFormData(filterValues, filterCodecs));
+expectType<URLSearchParams>(toSearchParams(filterValues, filterCodecs));
+expectError(toFormData(filterValues, {}));
+
+const decoded = fromFormData(new FormData(), filterCodecs, filterValues);
+expectType<number | undefined>(decoded.values.page);
+expectType<Date | undefined>(decoded.values.range?.from);
+expectType<string | undefined>(decoded.errors.page);
+expectType<DecodedFormData<FilterForm>>(decoded);
+// フィールドを知るために defaultValues が必要
+expectError(fromFormData<FilterForm>(new FormData(), filterCodecs));
+expectError(fromFormData(new FormData(), filterCodecs, { page: '1' }));
+
+// syncWithSearchParams: string だけのフォームは true、それ以外は codecs が必要
+useForm({ defaultValues: { q: '', sort: 'asc' }, syncWithSearchParams: true });
+useForm({ defaultValues: filterValues, syncWithSearchParams: { codecs: filterCodecs } });
+useForm({
+  defaultValues: filterValues,
+  syncWithSearchParams: { codecs: filterCodecs, debounce: 0 },
+});
+expectError(useForm({ defaultValues: filterValues, syncWithSearchParams: true }));
+expectError(useForm({ defaultValues: filterValues, syncWithSearchParams: {} }));
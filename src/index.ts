@@ -1,10 +1,91 @@
 export type {
+  ArrayPath,
+  CheckboxInputProps,
+  ComputedField,
+  ComputedFields,
+  ComputedPath,
+  CriteriaMode,
+  DecodedFormData,
+  DeepPartial,
+  DirtyFields,
+  ErrorDetails,
+  ErrorMessages,
+  ErrorMessageTemplate,
+  ErrorPath,
   Errors,
+  FieldChange,
+  FieldCodec,
+  FieldCodecOption,
+  FieldCodecs,
+  FieldCondition,
+  FieldElement,
+  FieldConditions,
+  FieldError,
+  FieldErrorInput,
+  FieldArrayItem,
+  FieldArrayRow,
+  FieldComparators,
+  FocusFieldOptions,
+  FormActions,
+  FormEvent,
+  FormPlugin,
+  FormState,
+  FormValidator,
+  FormValidatorResult,
+  HistoryOptions,
+  InputDrafts,
+  InputParser,
+  InputProps,
+  InvalidSubmitHandler,
+  FormStateSubscription,
+  FormStore,
+  ParseResult,
+  Path,
+  PathValue,
+  PersistOptions,
+  PersistStorage,
+  RegisterInput,
+  RegisterInputOptions,
   RegisterReturn,
+  ResetFieldOptions,
+  ResetOptions,
+  Rule,
+  SearchParamsOptions,
+  SubmitHandler,
+  SubscribedFormState,
   Touched,
+  Validating,
+  ValidationMode,
+  ValidatorContext,
   Validators,
+  UseControllerReturn,
+  UseFieldArrayReturn,
+  UseFormOptions,
   UseFormReturn,
+  UseFormSchemaOptions,
   ValidatorResult,
+  WatchedValues,
+  WritableArrayPath,
+  WritablePath,
 } from './types';
 
+export type {
+  InferSchemaInput,
+  InferSchemaOutput,
+  StandardSchemaIssue,
+  StandardSchemaPathSegment,
+  StandardSchemaResult,
+  StandardSchemaV1,
+} from './standardSchema';
+
+export { createFormStore } from './createFormStore';
 export { useForm } from './useForm';
+export { useFieldArray } from './useFieldArray';
+export { useWatch } from './useWatch';
+export { useFormState } from './useFormState';
+export { useController } from './useController';
+export { FormProvider, useFormContext } from './formContext';
+export type { FormProviderProps } from './formContext';
+export { fromFormData, toFormData, toSearchParams } from './formData';
+export { createLoggerPlugin } from './loggerPlugin';
+export type { LoggerPluginOptions } from './loggerPlugin';
@@ -0,0 +1,57 @@
+import type { InputParser } from './types';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatText = (value: unknown) => (value == null ? '' : String(value));
+
+const textInput: InputParser<string> = {
+  parse: (input) => ({ value: input }),
+  format: formatText,
+};
+
+const numberInput: InputParser<number> = {
+  parse: (input) => {
+    const value = input.trim() === '' ? NaN : Number(input);
+    return Number.isNaN(value) ? { error: { type: 'invalidNumber' } } : { value };
+  },
+  format: (value) => (typeof value === 'number' && !Number.isNaN(value) ? String(value) : ''),
+};
+
+// <input type="date"> の値（YYYY-MM-DD）をローカル時刻の Date として扱う
+const dateInput: InputParser<Date> = {
+  parse: (input) => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(input);
+    if (!match) return { error: { type: 'invalidDate' } };
+
+    const [year, month, day] = match.slice(1).map(Number);
+    const value = new Date(year, month - 1, day);
+    return value.getMonth() === month - 1 ? { value } : { error: { type: 'invalidDate' } };
+  },
+  format: (value) =>
+    value instanceof Date && !Number.isNaN(value.getTime())
+      ? `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+      : '',
+};
+
+/**
+ * registerInput のオプションから使うパーサーを決める（checkbox は呼び出し側で扱う）
+ */
+export function resolveInputParser(
+  options: InputParser<never> | { as: 'number' | 'date' | 'select' } | undefined
+): Required<InputParser<unknown>> {
+  if (!options || !('as' in options)) {
+    return {
+      parse: options?.parse ?? textInput.parse,
+      format: (options?.format as ((value: unknown) => string) | undefined) ?? formatText,
+    };
+  }
+
+  switch (options.as) {
+    case 'number':
+      return numberInput as Required<InputParser<unknown>>;
+    case 'date':
+      return dateInput as Required<InputParser<unknown>>;
+    default:
+      return textInput as Required<InputParser<unknown>>;
+  }
+}
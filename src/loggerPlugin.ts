@@ -0,0 +1,36 @@
+import type { FormEvent, FormPlugin } from './types';
+
+export type LoggerPluginOptions = {
+  /**
+   * ログの先頭に付ける名前（複数のフォームを見分けるため）
+   */
+  label?: string;
+  /**
+   * 出力先（デフォルト: console）
+   */
+  logger?: Pick<Console, 'log'>;
+  /**
+   * 出力するイベント（デフォルト: すべて）
+   */
+  events?: ReadonlyArray<FormEvent<Record<string, unknown>>['type']>;
+};
+
+/**
+ * フォームのイベントをコンソールに出力するプラグイン（開発時のデバッグ用）。
+ * 値を書き換えないので、どのフォームの plugins にも渡せる
+ */
+export function createLoggerPlugin({
+  label = 'form',
+  logger = console,
+  events,
+}: LoggerPluginOptions = {}): Omit<FormPlugin<Record<string, unknown>>, 'beforeChange'> {
+  return {
+    name: 'logger',
+    onEvent: (event, state) => {
+      if (events && !events.includes(event.type)) return;
+
+      const { type, ...detail } = event;
+      logger.log(`[${label}] ${type}`, detail, state);
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import type { Path, PathValue } from './types';
+
+export function getByPath<T, P extends Path<T>>(obj: T, path: P): PathValue<T, P> {
+  let current: unknown = obj;
+  for (const segment of path.split('.')) {
+    if (current == null) return undefined as PathValue<T, P>;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current as PathValue<T, P>;
+}
+
+/**
+ * パスの値を差し替えた新しいオブジェクトを返す（経路上のオブジェクトのみコピーする）
+ */
+export function setByPath<T, P extends Path<T>>(obj: T, path: P, value: PathValue<T, P>): T {
+  const [head, ...rest] = path.split('.');
+  const next = rest.length
+    ? setByPath((obj as Record<string, unknown> | null)?.[head], rest.join('.') as never, value as never)
+    : value;
+
+  if (Array.isArray(obj)) {
+    const copy = [...obj];
+    copy[Number(head)] = next;
+    return copy as T;
+  }
+  return { ...(obj ?? {}), [head]: next } as T;
+}
+
+/**
+ * 配列 arrayPath 配下のキー（'items.2.name' など）を、並べ替え後の index に付け替える
+ * order[新しいindex] = 元のindex。order に含まれない行のキーは取り除く
+ */
+export function reindexPaths<TRecord extends Partial<Record<string, unknown>>>(
+  record: TRecord,
+  arrayPath: string,
+  order: Array<number | null>
+): TRecord {
+  const prefix = `${arrayPath}.`;
+  const next: Partial<Record<string, unknown>> = {};
+
+  Object.entries(record).forEach(([key, value]) => {
+    if (!key.startsWith(prefix)) {
+      next[key] = value;
+      return;
+    }
+
+    const [index, ...rest] = key.slice(prefix.length).split('.');
+    const nextIndex = order.indexOf(Number(index));
+    if (nextIndex === -1) return;
+    next[[arrayPath, nextIndex, ...rest].join('.')] = value;
+  });
+
+  return next as TRecord;
+}
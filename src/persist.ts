@@ -0,0 +1,111 @@
+import { isPlainObject } from './dirty';
+import { setByPath } from './path';
+import type { DeepPartial, PersistOptions, PersistStorage } from './types';
+
+type Draft = {
+  version: number;
+  values: unknown;
+};
+
+function getDefaultStorage(): PersistStorage | undefined {
+  // SSR など localStorage がない環境では保存しない
+  return typeof localStorage === 'undefined' ? undefined : localStorage;
+}
+
+/**
+ * 下書きを defaultValues に重ねる（プレーンなオブジェクトはフィールドごと、それ以外は丸ごと置き換える）
+ */
+export function mergeDraft<T>(base: T, draft: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(draft)) {
+    return draft === undefined ? base : (draft as T);
+  }
+  const next: Record<string, unknown> = { ...base };
+  Object.entries(draft).forEach(([key, value]) => {
+    if (key in base) next[key] = mergeDraft(base[key], value);
+  });
+  return next as T;
+}
+
+/**
+ * persist オプションに従って下書きを読み書きする
+ * 保存は debounce し、ストレージの失敗はフォームの動作に影響させない
+ */
+export function createPersister<TValues extends Record<string, unknown>>(
+  getOptions: () => PersistOptions<TValues> | undefined
+) {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // debounce 中の保存（flush で今すぐ書き込むため）
+  let pending: (() => void) | null = null;
+
+  const cancel = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+    pending = null;
+  };
+
+  /**
+   * debounce 中の保存があれば今すぐ書き込む（アンマウントで最後の入力を失わないように）
+   */
+  const flush = () => {
+    const task = pending;
+    cancel();
+    task?.();
+  };
+
+  const run = (task: () => void | Promise<void>) => {
+    try {
+      void Promise.resolve(task()).catch(() => {});
+    } catch {
+      // 容量超過などで保存できなくても入力は続けられるようにする
+    }
+  };
+
+  const save = (values: TValues) => {
+    const options = getOptions();
+    const storage = options && (options.storage ?? getDefaultStorage());
+    if (!options || !storage) return;
+
+    cancel();
+    pending = () => {
+      const saved = (options.exclude ?? []).reduce<TValues>(
+        (result, path) => setByPath(result, path, undefined as never),
+        values
+      );
+      const draft: Draft = { version: options.version ?? 0, values: saved };
+      run(() => storage.setItem(options.key, JSON.stringify(draft)));
+    };
+    timer = setTimeout(flush, options.debounce ?? 300);
+  };
+
+  const clear = () => {
+    cancel();
+    const options = getOptions();
+    const storage = options && (options.storage ?? getDefaultStorage());
+    if (options && storage) run(() => storage.removeItem(options.key));
+  };
+
+  const load = async (): Promise<DeepPartial<TValues> | null> => {
+    const options = getOptions();
+    const storage = options && (options.storage ?? getDefaultStorage());
+    if (!options || !storage) return null;
+
+    let draft: Draft;
+    try {
+      const raw = await storage.getItem(options.key);
+      if (raw == null) return null;
+      draft = JSON.parse(raw) as Draft;
+    } catch {
+      return null;
+    }
+
+    const version = options.version ?? 0;
+    if (draft.version === version) return draft.values as DeepPartial<TValues>;
+
+    // 古い下書きは migrate で変換し、できなければ捨てる
+    const migrated = options.migrate?.(draft.values, draft.version) ?? null;
+    if (migrated === null) clear();
+    return migrated;
+  };
+
+  return { save, clear, cancel, flush, load };
+}
@@ -0,0 +1,27 @@
+import type { StandardSchemaIssue, StandardSchemaResult } from './standardSchema';
+import type { FieldError } from './types';
+
+export type SchemaResult = {
+  valid: boolean;
+  // パス（'user.address.city'）ごとのエラー。パスのない issue は root に入れる
+  errors: Partial<Record<string, FieldError[]>>;
+  // valid のときスキーマが返した値（onValid に渡す出力）
+  value?: unknown;
+};
+
+function issuePath(issue: StandardSchemaIssue): string {
+  return (issue.path ?? [])
+    .map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+    .join('.');
+}
+
+export function toSchemaResult(result: StandardSchemaResult<unknown>): SchemaResult {
+  if (!result.issues) return { valid: true, errors: {}, value: result.value };
+
+  const errors: Partial<Record<string, FieldError[]>> = {};
+  result.issues.forEach((issue) => {
+    const path = issuePath(issue) || 'root';
+    errors[path] = [...(errors[path] ?? []), { type: 'schema', message: issue.message }];
+  });
+  return { valid: false, errors };
+}
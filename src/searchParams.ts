@@ -0,0 +1,71 @@
+import { collectFields, pickDirtyValues } from './dirty';
+import { decodeFields, encodeFields } from './formData';
+import type { DirtyFields, FieldErrorInput, FormOptions } from './types';
+
+/**
+ * syncWithSearchParams オプションに従って URL のクエリを読み書きする（history.replaceState を使い、
+ * ルーターには依存しない）。フォームのフィールドでないクエリはそのまま残す
+ */
+export function createSearchParamsSync<TValues extends Record<string, unknown>>(
+  getOptions: () => FormOptions<TValues>['syncWithSearchParams']
+) {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  // SSR など window がない環境では何もしない
+  const resolve = (): { codecs?: unknown; debounce?: number } | null => {
+    const options = getOptions();
+    if (!options || typeof window === 'undefined') return null;
+    return options === true ? {} : (options as { codecs?: unknown; debounce?: number });
+  };
+
+  /**
+   * URL のクエリのうち、values のフィールドにあたるものを decode して重ねる（なければ null）
+   */
+  const load = (
+    values: TValues
+  ): { values: TValues; errors: Partial<Record<string, string | FieldErrorInput>> } | null => {
+    const options = resolve();
+    if (!options) return null;
+
+    const params = new URLSearchParams(window.location.search);
+    const paths = collectFields(values)
+      .map(([path]) => path)
+      .filter((path) => params.has(path));
+    return paths.length ? decodeFields(params, options.codecs, paths, values) : null;
+  };
+
+  /**
+   * dirty なフィールドだけをクエリに書き込む（defaultValues に戻ったフィールドはクエリから消える）
+   */
+  const save = (values: TValues, dirtyFields: DirtyFields<TValues>) => {
+    const options = resolve();
+    if (!options) return;
+
+    cancel();
+    timer = setTimeout(() => {
+      timer = null;
+      const { pathname, search, hash } = window.location;
+      const params = new URLSearchParams(search);
+      collectFields(values).forEach(([path]) => params.delete(path));
+      encodeFields(pickDirtyValues(values, dirtyFields), options.codecs).forEach(([key, input]) =>
+        params.append(key, input)
+      );
+
+      const query = params.toString();
+      const url = `${pathname}${query ? `?${query}` : ''}${hash}`;
+      if (url !== `${pathname}${search}${hash}`) {
+        window.history.replaceState(window.history.state, '', url);
+      }
+    }, options.debounce ?? 300);
+  };
+
+  /**
+   * まだ書き込んでいないクエリを捨てる（アンマウント後に別の画面の URL を書き換えないように）
+   */
+  const cancel = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+  };
+
+  return { load, save, cancel };
+}
@@ -0,0 +1,35 @@
+/**
+ * Standard Schema (https://standardschema.dev) v1 のインターフェース
+ * zod / valibot / arktype などのスキーマがそのまま resolver に渡せる
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+};
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export type StandardSchemaIssue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | StandardSchemaPathSegment> | undefined;
+};
+
+export type StandardSchemaPathSegment = {
+  readonly key: PropertyKey;
+};
+
+export type InferSchemaInput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema['~standard']['types']
+>['input'];
+
+export type InferSchemaOutput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema['~standard']['types']
+>['output'];
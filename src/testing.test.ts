@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { createFormStore } from './createFormStore';
+import { useForm } from './useForm';
+import { blurAll, expectErrors, fillForm, submit } from './testing';
+import type { Validators } from './types';
+
+type SignupForm = { email: string; profile: { name: string; age: number } };
+
+const defaultValues: SignupForm = { email: '', profile: { name: '', age: 0 } };
+
+const validators: Validators<SignupForm> = {
+  email: (value) => (value.includes('@') ? null : 'Invalid email'),
+  'profile.name': async (value) => (value ? null : 'Required'),
+};
+
+describe('testing', () => {
+  it('fillFormは指定したフィールドだけに入力する', async () => {
+    const store = createFormStore({ defaultValues, validators, mode: 'onChange' });
+
+    await fillForm(store, { email: 'john', profile: { age: 20 } });
+
+    expect(store.getState().values).toEqual({ email: 'john', profile: { name: '', age: 20 } });
+    expectErrors(store, { email: 'Invalid email' });
+  });
+
+  it('blurAllはすべてのフィールドをtouchedにし、非同期の検証を待つ', async () => {
+    const store = createFormStore({ defaultValues, validators });
+
+    await blurAll(store);
+
+    expect(store.getState().touched).toEqual({
+      email: true,
+      'profile.name': true,
+      'profile.age': true,
+    });
+    expectErrors(store, { email: 'Invalid email', 'profile.name': 'Required' });
+  });
+
+  it('submitは送信の結果を返す', async () => {
+    const store = createFormStore({
+      defaultValues,
+      validators,
+      transform: (values) => ({ ...values, email: values.email.toLowerCase() }),
+    });
+
+    expect(await submit(store)).toEqual({
+      ok: false,
+      errors: { email: 'Invalid email', 'profile.name': 'Required' },
+      submitError: undefined,
+    });
+
+    await fillForm(store, { email: 'John@example.com', profile: { name: 'John' } });
+    expect(await submit(store)).toEqual({
+      ok: true,
+      values: { email: 'john@example.com', profile: { name: 'John', age: 0 } },
+    });
+
+    expect(await submit(store, () => ({ email: 'Already registered' }))).toMatchObject({
+      ok: false,
+      errors: { email: 'Already registered' },
+    });
+
+    const failure = new Error('Network error');
+    expect(await submit(store, () => Promise.reject(failure))).toMatchObject({
+      ok: false,
+      submitError: failure,
+    });
+  });
+
+  it('expectErrorsはエラーが一致しなければ例外を投げる', async () => {
+    const store = createFormStore({ defaultValues, validators });
+    await submit(store);
+
+    expect(() => expectErrors(store, { email: 'Invalid email' })).toThrow(
+      'Expected form errors to equal {"email":"Invalid email"}, but received {"email":"Invalid email","profile.name":"Required"}'
+    );
+  });
+
+  it('useFormの戻り値もactなしで操作できる', async () => {
+    const consoleError = vi.spyOn(console, 'error');
+    const { result } = renderHook(() => useForm({ defaultValues, validators }));
+
+    await fillForm(result.current, { email: 'john@example.com' });
+    await blurAll(result.current);
+    expect(result.current.values.email).toBe('john@example.com');
+    expect(result.current.errors).toEqual({ 'profile.name': 'Required' });
+
+    await fillForm(result.current, { profile: { name: 'John' } });
+    expect((await submit(result.current)).ok).toBe(true);
+    expect(result.current.isSubmitSuccessful).toBe(true);
+
+    // act の外で状態が変わると React が警告を出す
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,131 @@
+import * as React from 'react';
+import { collectFields, deepEqual } from './dirty';
+import type {
+  DeepPartial,
+  Errors,
+  FormStore,
+  PathValue,
+  SubmitHandler,
+  UseFormReturn,
+  WritablePath,
+} from './types';
+
+/**
+ * テストから操作するフォーム。useForm の戻り値か createFormStore のストア
+ */
+export type TestForm<TValues extends Record<string, unknown>, TOutput = TValues> =
+  | UseFormReturn<TValues, TOutput>
+  | FormStore<TValues, TOutput>;
+
+/**
+ * submit の結果。ok のときは onValid に渡された値、失敗したときはその時点のエラーを持つ
+ */
+export type SubmitOutcome<TValues extends Record<string, unknown>, TOutput = TValues> =
+  | { ok: true; values: TOutput }
+  | { ok: false; errors: Errors<TValues>; submitError: unknown };
+
+// React 18.3 未満では act は unstable_act として公開されている
+const act: typeof React.act =
+  React.act ?? (React as unknown as { unstable_act: typeof React.act }).unstable_act;
+
+const getStore = <TValues extends Record<string, unknown>, TOutput>(
+  form: TestForm<TValues, TOutput>
+): FormStore<TValues, TOutput> => ('store' in form ? form.store : form);
+
+// useForm の戻り値なら、再レンダーが act の外で起きないように包む
+const run = async <TValues extends Record<string, unknown>, TOutput, TResult>(
+  form: TestForm<TValues, TOutput>,
+  callback: (store: FormStore<TValues, TOutput>) => Promise<TResult>
+): Promise<TResult> => {
+  const store = getStore(form);
+  if (!('store' in form)) return callback(store);
+
+  let result!: TResult;
+  await act(async () => {
+    result = await callback(store);
+  });
+  return result;
+};
+
+// 実行中の非同期バリデーションがなくなるまで待つ
+const waitForValidation = (
+  store: Pick<FormStore<Record<string, unknown>>, 'getState' | 'subscribe'>
+) =>
+  new Promise<void>((resolve) => {
+    const isIdle = () => Object.keys(store.getState().isValidating).length === 0;
+    if (isIdle()) return resolve();
+
+    const unsubscribe = store.subscribe(() => {
+      if (!isIdle()) return;
+      unsubscribe();
+      resolve();
+    });
+  });
+
+/**
+ * 指定したフィールドに入力する（register の onChange を呼ぶので、mode に応じて検証される）。
+ * 入力で始まった非同期バリデーションが終わるまで待つ
+ */
+export function fillForm<TValues extends Record<string, unknown>, TOutput = TValues>(
+  form: TestForm<TValues, TOutput>,
+  values: DeepPartial<TValues>
+): Promise<void> {
+  return run(form, async (store) => {
+    collectFields(values).forEach(([name, value]) => {
+      store
+        .register(name as WritablePath<TValues>)
+        .onChange(value as PathValue<TValues, WritablePath<TValues>>);
+    });
+    await waitForValidation(store);
+  });
+}
+
+/**
+ * すべてのフィールドの onBlur を呼ぶ（touched になり、mode に応じて検証される）
+ */
+export function blurAll<TValues extends Record<string, unknown>, TOutput = TValues>(
+  form: TestForm<TValues, TOutput>
+): Promise<void> {
+  return run(form, async (store) => {
+    collectFields(store.getState().values).forEach(([name]) => {
+      store.register(name as WritablePath<TValues>).onBlur();
+    });
+    await waitForValidation(store);
+  });
+}
+
+/**
+ * handleSubmit を実行して結果を返す。onValid を省略すると何もしない送信として扱う
+ */
+export function submit<TValues extends Record<string, unknown>, TOutput = TValues>(
+  form: TestForm<TValues, TOutput>,
+  onValid?: SubmitHandler<TValues, TOutput>
+): Promise<SubmitOutcome<TValues, TOutput>> {
+  return run(form, async (store) => {
+    const submitted: TOutput[] = [];
+    await store.handleSubmit((values) => {
+      submitted.push(values);
+      return onValid?.(values);
+    })();
+
+    const { isSubmitSuccessful, errors, submitError } = store.getState();
+    return isSubmitSuccessful && submitted.length
+      ? { ok: true, values: submitted[0] }
+      : { ok: false, errors, submitError };
+  });
+}
+
+/**
+ * 現在のエラーが expected と一致しなければ例外を投げる（テストランナーに依存しない）
+ */
+export function expectErrors<TValues extends Record<string, unknown>, TOutput = TValues>(
+  form: TestForm<TValues, TOutput>,
+  expected: Errors<TValues>
+): void {
+  const { errors } = getStore(form).getState();
+  if (deepEqual(errors, expected)) return;
+
+  throw new Error(
+    `Expected form errors to equal ${JSON.stringify(expected)}, but received ${JSON.stringify(errors)}`
+  );
+}
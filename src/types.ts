@@ -1,42 +1,862 @@
-export type ValidatorResult = string | null;
+import type { InferSchemaInput, InferSchemaOutput, StandardSchemaV1 } from './standardSchema';
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+
+// これ以上ドットで辿らない値（Date・関数は1つの値として扱う）
+type PathLeaf = Primitive | Date | ((...args: never[]) => unknown);
+
+type SubPath<K extends string, V> = NonNullable<V> extends PathLeaf
+  ? never
+  : `${K}.${Path<NonNullable<V>>}`;
+
+/**
+ * TValues のフィールドを指すドット区切りのパス（例: 'user.address.city', 'items.0.name'）
+ * フラットなフォームでは keyof TValues と一致する
+ */
+export type Path<T> = T extends ReadonlyArray<infer E>
+  ? `${number}` | SubPath<`${number}`, E>
+  : T extends PathLeaf
+    ? never
+    : {
+        [K in keyof T & string]: K | SubPath<K, T[K]>;
+      }[keyof T & string];
+
+// X と Y がまったく同じ型か（readonly 修飾子の違いも区別する）
+type IsEqual<X, Y> =
+  (<V>() => V extends X ? 1 : 2) extends (<V>() => V extends Y ? 1 : 2) ? true : false;
+
+// readonly のプロパティのキー
+type ReadonlyKeys<T> = {
+  [K in keyof T]-?: IsEqual<{ [Q in K]: T[K] }, { -readonly [Q in K]: T[K] }> extends true
+    ? never
+    : K;
+}[keyof T];
+
+type ComputedSubPath<K extends string, V> = NonNullable<V> extends PathLeaf
+  ? never
+  : `${K}.${ComputedPath<NonNullable<V>>}`;
+
+/**
+ * readonly のプロパティ（とその配下）のパス。computed で値を計算するフィールドになる
+ */
+export type ComputedPath<T> = T extends ReadonlyArray<infer E>
+  ? ComputedSubPath<`${number}`, E>
+  : T extends PathLeaf
+    ? never
+    : {
+        [K in keyof T & string]: K extends ReadonlyKeys<T>
+          ? K | SubPath<K, T[K]>
+          : ComputedSubPath<K, T[K]>;
+      }[keyof T & string];
+
+/**
+ * setValue / register できるパス（computed のフィールドを除いたもの）
+ */
+export type WritablePath<T> = Exclude<Path<T>, ComputedPath<T>>;
+
+type PathSegmentValue<T, K extends string> = T extends ReadonlyArray<infer E>
+  ? K extends `${number}`
+    ? E
+    : never
+  : K extends keyof T
+    ? T[K]
+    : never;
+
+/**
+ * パス P が指す値の型
+ */
+export type PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? PathValue<NonNullable<PathSegmentValue<T, K>>, Rest>
+  : PathSegmentValue<T, P>;
+
+type FilterArrayPath<T, P> = P extends string
+  ? PathValue<T, P> extends ReadonlyArray<unknown>
+    ? P
+    : never
+  : never;
+
+/**
+ * 値が配列になっているパスだけを取り出したもの（useFieldArray で使う）
+ */
+export type ArrayPath<T> = FilterArrayPath<T, Path<T>>;
+
+/**
+ * 書き換えられる配列のパス（computed のフィールドを除いたもの）
+ */
+export type WritableArrayPath<T> = Exclude<ArrayPath<T>, ComputedPath<T>>;
+
+export type FieldArrayItem<T, P extends ArrayPath<T>> =
+  PathValue<T, P> extends ReadonlyArray<infer E> ? E : never;
+
+/**
+ * ネストしたオブジェクトも含めてすべてのフィールドを省略可能にしたもの（配列・Date は丸ごと）
+ */
+export type DeepPartial<T> = T extends PathLeaf | ReadonlyArray<unknown>
+  ? T
+  : { [K in keyof T]?: DeepPartial<T[K]> };
+
+/**
+ * バリデータが返す構造化エラー。message を省略すると messages オプションの type から組み立てる
+ */
+export type FieldErrorInput = {
+  type: string;
+  message?: string;
+  params?: Record<string, unknown>;
+};
+
+/**
+ * null なら有効。配列を返すと複数のルールの失敗をまとめて報告できる（criteriaMode: 'all' で全件残る）
+ */
+export type ValidatorResult =
+  | string
+  | FieldErrorInput
+  | ReadonlyArray<string | FieldErrorInput>
+  | null;
+
+/**
+ * 表示用の message まで確定したエラー（文字列で返されたエラーの type は 'validate'）
+ */
+export type FieldError = {
+  type: string;
+  message: string;
+  params?: Record<string, unknown>;
+};
+
+export type CriteriaMode = 'firstError' | 'all';
+
+/**
+ * type ごとの表示文字列。文字列なら {param} を params の値で置き換える
+ */
+export type ErrorMessageTemplate =
+  | string
+  | ((params: Record<string, unknown>, locale: string | undefined) => string);
+
+export type ErrorMessages = Partial<Record<string, ErrorMessageTemplate>>;
+
+export type ValidatorContext = {
+  signal: AbortSignal;
+};
+
+/**
+ * 1つのフィールドを検証する関数。TValue より広い型を受け取るルールはそのフィールドにも使える
+ */
+export type Rule<TValue, TValues = unknown> = (
+  value: TValue,
+  values: TValues,
+  context: ValidatorContext
+) => ValidatorResult | Promise<ValidatorResult>;
 
 export type Validators<TValues extends Record<string, unknown>> = {
-  [K in keyof TValues]?: (value: TValues[K], values: TValues) => ValidatorResult;
+  [P in Path<TValues>]?: Rule<PathValue<TValues, P>, TValues>;
 };
 
+/**
+ * フィールドのパスごとのエラー。root はどのフィールドにも属さないフォーム全体のエラー
+ */
 export type Errors<TValues extends Record<string, unknown>> = Partial<
-  Record<keyof TValues, string>
->;
+  Record<Path<TValues>, string>
+> & {
+  root?: string;
+};
+
+/**
+ * エラーを設定できるキー（フィールドのパスと root）
+ */
+export type ErrorPath<TValues extends Record<string, unknown>> = Path<TValues> | 'root';
+
+/**
+ * errors の各エントリを構造化したもの（criteriaMode: 'all' では失敗したルールがすべて入る）
+ */
+export type ErrorDetails<TValues extends Record<string, unknown>> = Partial<
+  Record<Path<TValues>, FieldError[]>
+> & {
+  root?: FieldError[];
+};
+
+export type FormValidatorResult<TValues extends Record<string, unknown>> = {
+  [P in Path<TValues>]?: ValidatorResult;
+} & {
+  root?: ValidatorResult;
+};
+
+/**
+ * フォーム全体を見て、任意のフィールドと root にエラーを返すバリデータ
+ */
+export type FormValidator<TValues extends Record<string, unknown>> = (
+  values: TValues
+) => FormValidatorResult<TValues> | Promise<FormValidatorResult<TValues>>;
 
 export type Touched<TValues extends Record<string, unknown>> = Partial<
-  Record<keyof TValues, boolean>
+  Record<Path<TValues>, boolean>
+>;
+
+export type DirtyFields<TValues extends Record<string, unknown>> = Partial<
+  Record<Path<TValues>, boolean>
+>;
+
+/**
+ * dirty 判定に使う比較関数（指定しないフィールドは中身で比較する）
+ */
+export type FieldComparators<TValues extends Record<string, unknown>> = {
+  [P in Path<TValues>]?: (a: PathValue<TValues, P>, b: PathValue<TValues, P>) => boolean;
+};
+
+export type Validating<TValues extends Record<string, unknown>> = Partial<
+  Record<Path<TValues>, boolean>
 >;
 
-export type UseFormOptions<TValues extends Record<string, unknown>> = {
-  defaultValues: TValues;
+/**
+ * registerInput に入力されたまま値として確定していない文字列（parse できなかった入力や、
+ * 整形すると表示が変わってしまう '1.' のような入力）
+ */
+export type InputDrafts<TValues extends Record<string, unknown>> = Partial<
+  Record<Path<TValues>, string>
+>;
+
+/**
+ * register のハンドラがいつ validateField を呼ぶか
+ * - onChange: 入力のたび / onBlur: フォーカスが外れたとき / onSubmit: 送信時のみ
+ * - onTouched: 最初のblur以降は入力のたび / all: 入力とblurの両方
+ */
+export type ValidationMode = 'onChange' | 'onBlur' | 'onSubmit' | 'onTouched' | 'all';
+
+/**
+ * 下書きの保存先。localStorage / sessionStorage をそのまま渡せる（非同期のストレージも可）
+ */
+export type PersistStorage = {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+};
+
+export type PersistOptions<TValues extends Record<string, unknown>> = {
+  key: string;
+  /**
+   * デフォルト: localStorage（ない環境では保存しない）
+   */
+  storage?: PersistStorage;
+  /**
+   * 最後の入力から保存するまでの時間（ミリ秒、デフォルト: 300）
+   */
+  debounce?: number;
+  /**
+   * 保存しないフィールド（パスワードなど）
+   */
+  exclude?: ReadonlyArray<Path<TValues>>;
+  /**
+   * 下書きの形式のバージョン（デフォルト: 0）。保存時と異なる場合は migrate で変換する
+   */
+  version?: number;
+  /**
+   * 古いバージョンの下書きを現在の形に変換する。null を返すと下書きを捨てる
+   */
+  migrate?: (values: unknown, version: number) => DeepPartial<TValues> | null;
+};
+
+/**
+ * FormData / URLSearchParams のエントリーとフィールドの値の変換。decode できないときは error を返す
+ * （フィールドのエラーになる）。decode には同じキーのエントリーがすべて渡され、encode で配列を返すと
+ * 同じキーのエントリーを並べる
+ */
+export type FieldCodec<TValue> = {
+  encode: (value: TValue) => string | ReadonlyArray<string>;
+  decode: (inputs: ReadonlyArray<string>) => ParseResult<TValue>;
+};
+
+/**
+ * codecs のフィールドごとの指定。string 以外のフィールドでは必須になる
+ * - number / date: registerInput の as と同じ変換 / checkbox: 'false' と空文字以外を true にする
+ * - multiple: 同じキーのエントリーをすべて読む string[] のフィールド
+ */
+export type FieldCodecOption<TValue> =
+  | FieldCodec<TValue>
+  | ([TValue] extends [number] ? { as: 'number' } : never)
+  | ([TValue] extends [Date] ? { as: 'date' } : never)
+  | ([TValue] extends [boolean] ? { as: 'checkbox' } : never)
+  | ([TValue] extends [ReadonlyArray<string>] ? { as: 'multiple' } : never);
+
+// FormData の1つのキーになるパス（プレーンなオブジェクトは配下を辿り、配列・Date などは丸ごと1つのキー）
+type CodecPath<T> = {
+  [P in Path<T>]: P extends `${string}.${number}` | `${string}.${number}.${string}`
+    ? never
+    : NonNullable<PathValue<T, P>> extends PathLeaf | ReadonlyArray<unknown>
+      ? P
+      : never;
+}[Path<T>];
+
+type RequiredCodecPath<T> = {
+  [P in CodecPath<T>]: [NonNullable<PathValue<T, P>>] extends [string] ? never : P;
+}[CodecPath<T>];
+
+export type FieldCodecs<TValues extends Record<string, unknown>> = {
+  [P in CodecPath<TValues>]?: FieldCodecOption<PathValue<TValues, P>>;
+} & {
+  [P in RequiredCodecPath<TValues>]: FieldCodecOption<PathValue<TValues, P>>;
+};
+
+export type SearchParamsOptions<TValues extends Record<string, unknown>> = {
+  /**
+   * 最後の入力から URL を書き換えるまでの時間（ミリ秒、デフォルト: 300）
+   */
+  debounce?: number;
+} & ({} extends FieldCodecs<TValues>
+  ? { codecs?: FieldCodecs<TValues> }
+  : { codecs: FieldCodecs<TValues> });
+
+/**
+ * fromFormData の結果。decode できなかったフィールドは values に含まれず、errors に入る
+ */
+export type DecodedFormData<TValues extends Record<string, unknown>> = {
+  values: DeepPartial<TValues>;
+  errors: Errors<TValues>;
+};
+
+/**
+ * フィールドを使わない条件。どれかに当てはまるフィールド（と配下のフィールド）は
+ * 検証されず、onValid に渡す values からも取り除かれる
+ */
+export type FieldCondition<TValues extends Record<string, unknown>> = {
+  disabled?: boolean | ((values: TValues) => boolean);
+  hidden?: boolean | ((values: TValues) => boolean);
+  /**
+   * false を返す間は使わない（例: values => values.accountType === 'business'）
+   */
+  when?: (values: TValues) => boolean;
+};
+
+export type FieldConditions<TValues extends Record<string, unknown>> = {
+  [P in Path<TValues>]?: FieldCondition<TValues>;
+};
+
+/**
+ * 他のフィールドから計算する値。deps のどれかが変わったときだけ compute を呼び直す
+ */
+export type ComputedField<TValues extends Record<string, unknown>, TValue> = {
+  deps: ReadonlyArray<Path<TValues>>;
+  compute: (values: TValues) => TValue;
+};
+
+/**
+ * readonly のフィールドごとの計算方法（書いた順に計算するので、前の computed の結果を deps にできる）
+ */
+export type ComputedFields<TValues extends Record<string, unknown>> = {
+  [P in ComputedPath<TValues>]?: ComputedField<TValues, PathValue<TValues, P>>;
+};
+
+/**
+ * フィールドの値の変更。name で絞り込むと value もそのフィールドの型になる
+ */
+export type FieldChange<TValues extends Record<string, unknown>> = {
+  [P in Path<TValues>]: { name: P; value: PathValue<TValues, P> };
+}[Path<TValues>];
+
+/**
+ * plugins に通知されるイベント
+ * - validate: name が null なら validateAll（errors はフォーム全体、それ以外はそのフィールドのみ）
+ * - submitFailure: 検証の失敗・onValid が返したエラー・onValid の例外（error）
+ */
+export type FormEvent<TValues extends Record<string, unknown>> =
+  | ({ type: 'change' } & FieldChange<TValues>)
+  | { type: 'blur'; name: Path<TValues> }
+  | {
+      type: 'validate';
+      name: Path<TValues> | null;
+      valid: boolean;
+      errors: ErrorDetails<TValues>;
+    }
+  | { type: 'submitStart'; values: TValues }
+  | { type: 'submitSuccess'; values: TValues }
+  | { type: 'submitFailure'; errors: Errors<TValues>; error: unknown }
+  | { type: 'reset'; values: TValues };
+
+export type FormPlugin<TValues extends Record<string, unknown>> = {
+  name?: string;
+  /**
+   * setValue / register の onChange で値が変わる前に呼ばれる
+   * 値を差し替えた change を返すとその値を使い、false を返すと変更を取り消す
+   */
+  beforeChange?: (
+    change: FieldChange<TValues>,
+    values: TValues
+  ) => FieldChange<TValues> | false | void;
+  /**
+   * state はイベントの時点の状態
+   */
+  onEvent?: (event: FormEvent<TValues>, state: FormState<TValues>) => void;
+};
+
+export type HistoryOptions = {
+  /**
+   * 残す履歴の数（デフォルト: 100）。超えたら古いものから捨てる
+   */
+  limit?: number;
+  /**
+   * 同じフィールドへの入力をこの時間（ミリ秒）以内なら1つの履歴にまとめる（デフォルト: 500）
+   */
+  mergeWindow?: number;
+};
+
+/**
+ * reset で今の状態を残すかどうか
+ */
+export type ResetOptions = {
+  /**
+   * dirtyFields / isDirty を残す（次の値の変更で計算し直す）
+   */
+  keepDirty?: boolean;
+  keepErrors?: boolean;
+  keepTouched?: boolean;
+  /**
+   * dirty 判定の基準を変えない（渡した値は defaultValues との差分として dirty になる）
+   */
+  keepDefaultValues?: boolean;
+};
+
+export type ResetFieldOptions<TValue> = {
+  /**
+   * このフィールドの新しい初期値（以降の dirty 判定と reset の基準になる）
+   */
+  defaultValue?: TValue;
+};
+
+/**
+ * useForm / createFormStore のオプション（transform と resolver の組み合わせの検査を除く）
+ */
+export type FormOptions<TValues extends Record<string, unknown>, TOutput = TValues> = {
+  /**
+   * 初期値。非同期の関数を渡すと、読み込みが終わるまで isLoading が true になる
+   */
+  defaultValues: TValues | (() => Promise<TValues>);
   validators?: Validators<TValues>;
+  /**
+   * 複数のフィールドにまたがるルール。validateAll / handleSubmit で validators の結果とマージする
+   * （同じフィールドでは validators のエラーを優先する）
+   */
+  validate?: FormValidator<TValues>;
+  /**
+   * 'firstError'（デフォルト）はフィールドごとに最初のエラーだけ、'all' は失敗したルールをすべて残す
+   */
+  criteriaMode?: CriteriaMode;
+  /**
+   * エラーの type を表示文字列に変換するテンプレート
+   */
+  messages?: ErrorMessages;
+  /**
+   * messages の補間で数値・日付を整形するときのロケール
+   */
+  locale?: string;
+  /**
+   * 最初の送信までの検証タイミング（デフォルト: 'onBlur'）
+   */
+  mode?: ValidationMode;
+  /**
+   * 送信を試みた後の検証タイミング（デフォルト: 'onChange'）
+   */
+  reValidateMode?: ValidationMode;
+  /**
+   * dirtyFields を計算するときのフィールドごとの比較関数
+   */
+  isEqual?: FieldComparators<TValues>;
+  /**
+   * Standard Schema 準拠のスキーマ。同じフィールドに validators のエラーがあればそちらを優先する。
+   * transform がなければ、スキーマの出力が onValid に渡される
+   */
+  resolver?: StandardSchemaV1<TValues, TOutput>;
+  /**
+   * 検証を通った値を onValid に渡す前に変換する（例: 文字列の入力を number にする）
+   */
+  transform?: (values: NoInfer<TValues>) => TOutput;
+  /**
+   * true なら送信中の handleSubmit の呼び出しを無視する（二重送信の防止）
+   */
+  preventDoubleSubmit?: boolean;
+  /**
+   * 入力中の値を下書きとして保存し、マウント時に復元する（送信の成功と reset で消す）
+   */
+  persist?: PersistOptions<TValues>;
+  /**
+   * setValue / register の onChange / 配列の操作による値の変更を記録し、undo / redo できるようにする
+   */
+  history?: boolean | HistoryOptions;
+  /**
+   * フィールドごとの disabled / hidden / when の条件
+   */
+  fields?: FieldConditions<TValues>;
+  /**
+   * readonly のフィールドを他のフィールドから計算する（values で読めるが setValue はできない）
+   */
+  computed?: ComputedFields<NoInfer<TValues>>;
+  /**
+   * defaultValues から変わったフィールドを URL のクエリに書き込み、マウント時に読み込む
+   * （string 以外のフィールドがあれば codecs が必要）
+   */
+  syncWithSearchParams?:
+    | ({} extends FieldCodecs<TValues> ? boolean : false)
+    | SearchParamsOptions<NoInfer<TValues>>;
+  /**
+   * 送信時の検証に失敗したら、最初のエラーのフィールド（DOM の順）にフォーカスする（デフォルト: true）
+   * { scroll } を指定するとフォーカスの前にスクロールする
+   */
+  shouldFocusError?: boolean | FocusFieldOptions;
+  /**
+   * 値の変更を差し替え・取り消したり、フォームのイベントを受け取ったりするプラグイン
+   */
+  plugins?: ReadonlyArray<FormPlugin<NoInfer<TValues>>>;
+};
+
+export type UseFormOptions<TValues extends Record<string, unknown>, TOutput = TValues> =
+  FormOptions<TValues, TOutput> & OutputOptions<TValues, TOutput>;
+
+/**
+ * 入力の値をそのまま TOutput として渡せないときは、transform か resolver のどちらかを必須にする
+ * （onValid が変換されていない入力を受け取らないように）
+ */
+type OutputOptions<TValues extends Record<string, unknown>, TOutput> = [TValues] extends [TOutput]
+  ? unknown
+  :
+      | { transform: (values: NoInfer<TValues>) => TOutput }
+      | { resolver: StandardSchemaV1<TValues, TOutput> };
+
+/**
+ * resolver から TValues（入力）と onValid に渡す値（出力）を推論するためのオプション
+ */
+export type UseFormSchemaOptions<TSchema extends StandardSchemaV1<Record<string, unknown>, unknown>> =
+  Omit<
+    UseFormOptions<InferSchemaInput<TSchema>, InferSchemaOutput<TSchema>>,
+    'resolver' | 'transform'
+  > & {
+    resolver: TSchema;
+  };
+
+/**
+ * register の ref に渡される要素（フォーカスの移動に使う）
+ */
+export type FieldElement = {
+  focus: (options?: FocusOptions) => void;
+  scrollIntoView?: (options?: ScrollIntoViewOptions) => void;
+  compareDocumentPosition?: (other: Node) => number;
 };
 
-export type RegisterReturn<TValues extends Record<string, unknown>, K extends keyof TValues> = {
-  name: K;
-  value: TValues[K];
-  onChange: (value: TValues[K]) => void;
+export type FocusFieldOptions = {
+  /**
+   * フォーカスする前に要素までスクロールする（true なら画面の中央へ）
+   */
+  scroll?: boolean | ScrollIntoViewOptions;
+};
+
+export type RegisterReturn<TValues extends Record<string, unknown>, P extends Path<TValues>> = {
+  name: P;
+  value: PathValue<TValues, P>;
+  onChange: (value: PathValue<TValues, P>) => void;
+  onBlur: () => void;
+  ref: (element: FieldElement | null) => void;
+};
+
+export type UseControllerReturn<TValues extends Record<string, unknown>, P extends Path<TValues>> = {
+  field: RegisterReturn<TValues, P>;
+  error: string | undefined;
+  touched: boolean;
+  dirty: boolean;
+};
+
+/**
+ * 入力要素の文字列をフィールドの値に変換する。変換できないときは error を返す（フィールドのエラーになる）
+ */
+export type ParseResult<TValue> = { value: TValue } | { error: string | FieldErrorInput };
+
+export type InputParser<TValue> = {
+  parse: (input: string) => ParseResult<TValue>;
+  /**
+   * 値を入力要素に表示する文字列にする（デフォルト: String(value)）
+   */
+  format?: (value: TValue) => string;
+};
+
+/**
+ * registerInput のオプション。string 以外のフィールドでは parse か as が必須になる
+ * - number: number のフィールド / date: Date のフィールド（<input type="date">）
+ * - select: string（リテラル型のユニオンを含む）のフィールド
+ */
+export type RegisterInputOptions<TValue> =
+  | InputParser<TValue>
+  | ([TValue] extends [number] ? { as: 'number' } : never)
+  | ([TValue] extends [Date] ? { as: 'date' } : never)
+  | ([TValue] extends [string] ? { as: 'select' } : never);
+
+type RegisterInputArgs<TValue> = [TValue] extends [string]
+  ? string extends TValue
+    ? [options?: RegisterInputOptions<TValue>]
+    : [options: RegisterInputOptions<TValue>]
+  : [options: RegisterInputOptions<TValue>];
+
+/**
+ * <input> / <select> / <textarea> にそのまま渡せる props
+ */
+export type InputProps<P extends string> = {
+  name: P;
+  value: string;
+  disabled: boolean;
+  onChange: (event: { target: { value: string } }) => void;
   onBlur: () => void;
+  ref: (element: FieldElement | null) => void;
 };
 
-export type UseFormReturn<TValues extends Record<string, unknown>> = {
+export type CheckboxInputProps<P extends string> = {
+  name: P;
+  type: 'checkbox';
+  checked: boolean;
+  disabled: boolean;
+  onChange: (event: { target: { checked: boolean } }) => void;
+  onBlur: () => void;
+  ref: (element: FieldElement | null) => void;
+};
+
+export type RegisterInput<TValues extends Record<string, unknown>> = {
+  <P extends WritablePath<TValues>>(
+    name: P,
+    options: [PathValue<TValues, P>] extends [boolean] ? { as: 'checkbox' } : never
+  ): CheckboxInputProps<P>;
+  <P extends WritablePath<TValues>>(
+    name: P,
+    ...options: RegisterInputArgs<PathValue<TValues, P>>
+  ): InputProps<P>;
+};
+
+export type FormState<TValues extends Record<string, unknown>> = {
   values: TValues;
+  /**
+   * フィールドごとの表示用メッセージ（errorDetails の先頭の message）
+   */
   errors: Errors<TValues>;
+  errorDetails: ErrorDetails<TValues>;
   touched: Touched<TValues>;
+  /**
+   * defaultValues（または最後の reset の値）から変わったフィールド
+   */
+  dirtyFields: DirtyFields<TValues>;
+  isDirty: boolean;
+  isValidating: Validating<TValues>;
+  /**
+   * registerInput が value として表示している入力中の文字列
+   */
+  inputDrafts: InputDrafts<TValues>;
+  /**
+   * 非同期の defaultValues を読み込んでいる間は true。
+   * その間 values は型に関わらず空のオブジェクトなので、false になるまでフィールドを読まない
+   */
+  isLoading: boolean;
+  /**
+   * 非同期の defaultValues の読み込みで投げられた例外（失敗していなければ undefined）
+   */
+  loadError: unknown;
+  isSubmitting: boolean;
+  /**
+   * handleSubmit が呼ばれた回数（reset で 0 に戻る）
+   */
+  submitCount: number;
+  /**
+   * 最後の送信が終わったか（検証に失敗した場合も true）
+   */
+  isSubmitted: boolean;
+  /**
+   * 最後の送信で onValid がエラーを返さず・投げずに終わったか
+   */
+  isSubmitSuccessful: boolean;
+  /**
+   * 最後の送信で onValid が投げた例外（エラーオブジェクトとして反映したものは除く）
+   */
+  submitError: unknown;
+  /**
+   * history オプションが有効で、戻せる / やり直せる変更があるか
+   */
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+/**
+ * 送信時に呼ばれる処理。サーバーが返したフィールドのエラーは return / throw するとフォームに反映される
+ */
+export type SubmitHandler<TValues extends Record<string, unknown>, TOutput = TValues> = (
+  values: TOutput
+) => void | Errors<TValues> | Promise<void | Errors<TValues>>;
+
+export type InvalidSubmitHandler<TValues extends Record<string, unknown>> = (
+  errors: Errors<TValues>
+) => void | Promise<void>;
+
+export type FormActions<TValues extends Record<string, unknown>, TOutput = TValues> = {
+  register: <P extends WritablePath<TValues>>(name: P) => RegisterReturn<TValues, P>;
+
+  /**
+   * ネイティブの入力要素向けの register。イベントから値を取り出し、parse できなければエラーにする
+   */
+  registerInput: RegisterInput<TValues>;
+
+  setValue: <P extends WritablePath<TValues>>(name: P, value: PathValue<TValues, P>) => void;
+
+  /**
+   * register の ref で受け取った要素にフォーカスする（要素がなければ何もしない）
+   */
+  setFocus: (name: Path<TValues>, options?: FocusFieldOptions) => void;
+
+  validateField: <P extends Path<TValues>>(name: P) => Promise<boolean>;
+  validateAll: () => Promise<boolean>;
+
+  /**
+   * 任意のフィールド（または root）にエラーを設定する。次にそのフィールドが検証されるまで残る
+   */
+  setError: (name: ErrorPath<TValues>, error: string | FieldErrorInput) => void;
+
+  /**
+   * 指定したフィールドのエラーを消す（省略するとすべて）
+   */
+  clearErrors: (names?: ErrorPath<TValues> | ReadonlyArray<ErrorPath<TValues>>) => void;
+
+  /**
+   * 検証を通ったら、transform（なければ resolver の出力）を通した値で onValid を呼ぶ
+   */
+  handleSubmit: (
+    onValid: SubmitHandler<TValues, TOutput>,
+    onInvalid?: InvalidSubmitHandler<TValues>
+  ) => (e?: unknown) => Promise<void>;
+
+  /**
+   * 値を nextValues（省略すると defaultValues）に戻し、新しい dirty 判定の基準にする。
+   * エラー・touched・送信の状態も消す（options で残せる）
+   */
+  reset: (nextValues?: TValues, options?: ResetOptions) => void;
+
+  /**
+   * 1つのフィールド（配下のフィールドを含む）の値を初期値に戻し、エラー・touched・dirty を消す
+   */
+  resetField: <P extends WritablePath<TValues>>(
+    name: P,
+    options?: ResetFieldOptions<PathValue<TValues, P>>
+  ) => void;
+
+  /**
+   * 直前の値の変更を取り消す（touched とエラーもその時点に戻す）。reset で履歴は消える
+   */
+  undo: () => void;
+  redo: () => void;
+
+  /**
+   * dirtyFields の値だけを取り出す
+   */
+  getDirtyValues: () => DeepPartial<TValues>;
 
-  register: <K extends keyof TValues>(name: K) => RegisterReturn<TValues, K>;
+  /**
+   * 配列フィールドを置き換え、行ごとの errors / touched を新しい位置へ移す
+   * order[新しいindex] = 元のindex（追加された行は null）
+   */
+  updateFieldArray: <P extends WritableArrayPath<TValues>>(
+    name: P,
+    items: PathValue<TValues, P>,
+    order: Array<number | null>
+  ) => void;
+};
+
+/**
+ * React に依存しないフォームの状態とその操作
+ */
+export type FormStore<
+  TValues extends Record<string, unknown>,
+  TOutput = TValues,
+> = FormActions<TValues, TOutput> & {
+  getState: () => FormState<TValues>;
+  subscribe: (listener: () => void) => () => void;
+
+  /**
+   * validators などのオプションを差し替える（状態は変えないので購読者には通知しない）
+   */
+  setOptions: (options: UseFormOptions<TValues, TOutput>) => void;
+
+  /**
+   * 実行中の非同期バリデーションをすべて中断する
+   */
+  cancelValidations: () => void;
+
+  /**
+   * 実行中の非同期バリデーションと debounce 中の URL のクエリの書き込みを止め、
+   * debounce 中の下書きは今すぐ保存する（useForm はアンマウント時に呼ぶ）
+   */
+  dispose: () => void;
+
+  /**
+   * 非同期の defaultValues と persist の下書きを読み込んで values に反映する（useForm はマウント時に呼ぶ）
+   * 下書きは、読み込みの間にフィールドが変更されていたら反映しない
+   */
+  hydrate: () => Promise<void>;
+};
+
+export type UseFormReturn<
+  TValues extends Record<string, unknown>,
+  TOutput = TValues,
+> = FormState<TValues> &
+  FormActions<TValues, TOutput> & {
+    /**
+     * useForm が内部で持つストア（useWatch / useFormState で購読に使う）
+     */
+    store: FormStore<TValues, TOutput>;
+  };
 
-  setValue: <K extends keyof TValues>(name: K, value: TValues[K]) => void;
+export type WatchedValues<
+  TValues extends Record<string, unknown>,
+  TPaths extends ReadonlyArray<Path<TValues>>,
+> = {
+  [I in keyof TPaths]: PathValue<TValues, TPaths[I] & string>;
+};
+
+type SubscribableState<TValues extends Record<string, unknown>> = Pick<
+  FormState<TValues>,
+  'errors' | 'errorDetails' | 'touched' | 'dirtyFields' | 'isValidating'
+>;
+
+/**
+ * useFormState で購読する状態。true ならその状態全体、パスの配列なら指定したフィールドのみ
+ */
+export type FormStateSubscription<TValues extends Record<string, unknown>> = {
+  [K in keyof SubscribableState<TValues>]?: true | ReadonlyArray<Path<TValues>>;
+} & {
+  isDirty?: true;
+  isLoading?: true;
+  loadError?: true;
+  isSubmitting?: true;
+  submitCount?: true;
+  isSubmitted?: true;
+  isSubmitSuccessful?: true;
+  submitError?: true;
+  canUndo?: true;
+  canRedo?: true;
+};
+
+export type SubscribedFormState<
+  TValues extends Record<string, unknown>,
+  TSubscription extends FormStateSubscription<TValues>,
+> = {
+  [K in keyof TSubscription & keyof FormState<TValues>]: TSubscription[K] extends ReadonlyArray<
+    infer P
+  >
+    ? Pick<FormState<TValues>[K], P & keyof FormState<TValues>[K]>
+    : FormState<TValues>[K];
+};
 
-  validateField: <K extends keyof TValues>(name: K) => boolean;
-  validateAll: () => boolean;
+export type FieldArrayRow<TItem> = {
+  key: string;
+  value: TItem;
+};
 
-  handleSubmit: (onValid: (values: TValues) => void) => (e?: unknown) => void;
+export type UseFieldArrayReturn<
+  TValues extends Record<string, unknown>,
+  P extends ArrayPath<TValues>,
+> = {
+  fields: Array<FieldArrayRow<FieldArrayItem<TValues, P>>>;
 
-  reset: (nextValues?: TValues) => void;
+  append: (item: FieldArrayItem<TValues, P>) => void;
+  prepend: (item: FieldArrayItem<TValues, P>) => void;
+  insert: (index: number, item: FieldArrayItem<TValues, P>) => void;
+  remove: (index?: number | number[]) => void;
+  move: (from: number, to: number) => void;
+  swap: (indexA: number, indexB: number) => void;
+  replace: (items: Array<FieldArrayItem<TValues, P>>) => void;
 };
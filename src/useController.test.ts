@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useForm } from './useForm';
+import { useController } from './useController';
+
+type EventForm = { title: string; date: Date | null };
+
+const defaultValues: EventForm = { title: '', date: null };
+
+describe('useController', () => {
+  it('registerの戻り値とフィールドの状態を返す', () => {
+    const { result } = renderHook(() => {
+      const form = useForm<EventForm>({
+        defaultValues,
+        validators: { date: (value) => (value ? null : 'Required') },
+      });
+      return { form, controller: useController(form, 'date') };
+    });
+
+    expect(result.current.controller).toMatchObject({
+      field: { name: 'date', value: null },
+      error: undefined,
+      touched: false,
+      dirty: false,
+    });
+
+    const date = new Date(2024, 0, 1);
+    act(() => {
+      result.current.controller.field.onChange(date);
+    });
+    expect(result.current.controller).toMatchObject({ field: { value: date }, dirty: true });
+
+    act(() => {
+      result.current.controller.field.onChange(null);
+      result.current.controller.field.onBlur();
+    });
+    expect(result.current.controller).toMatchObject({
+      field: { value: null },
+      error: 'Required',
+      touched: true,
+      dirty: false,
+    });
+  });
+
+  it('他のフィールドが変わっても再レンダーしない', () => {
+    const { result } = renderHook(() => {
+      const form = useForm<EventForm>({ defaultValues });
+      return form;
+    });
+    const form = result.current;
+
+    let renders = 0;
+    const controller = renderHook(() => {
+      renders += 1;
+      return useController(form, 'title');
+    });
+
+    act(() => {
+      form.setValue('date', new Date(2024, 0, 1));
+    });
+    expect(renders).toBe(1);
+
+    act(() => {
+      form.setValue('title', 'Meetup');
+    });
+    expect(renders).toBe(2);
+    expect(controller.result.current.field.value).toBe('Meetup');
+  });
+});
@@ -0,0 +1,30 @@
+import { useCallback } from 'react';
+import { getByPath } from './path';
+import { useStoreSelector } from './useStoreSelector';
+import type { FormState, UseControllerReturn, UseFormReturn, WritablePath } from './types';
+
+/**
+ * 1つのフィールドの register の戻り値と、そのフィールドの状態をまとめて返す
+ * （日付ピッカーなど、register をそのまま渡せない入力をラップするため）。
+ * このフィールドの値・エラー・touched・dirty が変わったときだけ再レンダーする
+ */
+export function useController<
+  TValues extends Record<string, unknown>,
+  P extends WritablePath<TValues>,
+  TOutput = TValues,
+>(form: UseFormReturn<TValues, TOutput>, name: P): UseControllerReturn<TValues, P> {
+  const selector = useCallback(
+    // value は再レンダーのためだけに選ぶ（field.value は register が返す）
+    (state: FormState<TValues>) => ({
+      value: getByPath(state.values, name),
+      error: state.errors[name],
+      touched: state.touched[name] ?? false,
+      dirty: state.dirtyFields[name] ?? false,
+    }),
+    [name]
+  );
+  const { error, touched, dirty } = useStoreSelector(form.store, selector);
+
+  // form.register はレンダー中に呼ぶと form を持つコンポーネントの購読に数えられるので、store から直接呼ぶ
+  return { field: form.store.register(name), error, touched, dirty };
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useForm } from './useForm';
+import { useFieldArray } from './useFieldArray';
+import type { Validators } from './types';
+
+type InvoiceForm = {
+  title: string;
+  items: Array<{ description: string; price: number }>;
+};
+
+const defaultValues: InvoiceForm = {
+  title: '',
+  items: [
+    { description: 'A', price: 100 },
+    { description: 'B', price: 200 },
+    { description: 'C', price: 300 },
+  ],
+};
+
+function renderFieldArray(validators?: Validators<InvoiceForm>) {
+  return renderHook(() => {
+    const form = useForm<InvoiceForm>({ defaultValues, validators });
+    const items = useFieldArray(form, 'items');
+    return { form, items };
+  });
+}
+
+const descriptions = (values: InvoiceForm) => values.items.map((item) => item.description);
+
+describe('useFieldArray', () => {
+  describe('操作', () => {
+    it('append / prepend / insertで行を追加する', () => {
+      const { result } = renderFieldArray();
+
+      act(() => {
+        result.current.items.append({ description: 'D', price: 400 });
+        result.current.items.prepend({ description: 'Z', price: 0 });
+      });
+      act(() => {
+        result.current.items.insert(2, { description: 'X', price: 50 });
+      });
+
+      expect(descriptions(result.current.form.values)).toEqual(['Z', 'A', 'X', 'B', 'C', 'D']);
+      expect(result.current.items.fields.map((field) => field.value.description)).toEqual([
+        'Z',
+        'A',
+        'X',
+        'B',
+        'C',
+        'D',
+      ]);
+    });
+
+    it('removeで指定した行（引数なしなら全行）を削除する', () => {
+      const { result } = renderFieldArray();
+
+      act(() => {
+        result.current.items.remove([0, 2]);
+      });
+      expect(descriptions(result.current.form.values)).toEqual(['B']);
+
+      act(() => {
+        result.current.items.remove();
+      });
+      expect(result.current.form.values.items).toEqual([]);
+    });
+
+    it('move / swap / replaceで並べ替え・置き換えができる', () => {
+      const { result } = renderFieldArray();
+
+      act(() => {
+        result.current.items.move(0, 2);
+      });
+      expect(descriptions(result.current.form.values)).toEqual(['B', 'C', 'A']);
+
+      act(() => {
+        result.current.items.swap(0, 1);
+      });
+      expect(descriptions(result.current.form.values)).toEqual(['C', 'B', 'A']);
+
+      act(() => {
+        result.current.items.replace([{ description: 'N', price: 1 }]);
+      });
+      expect(result.current.form.values.items).toEqual([{ description: 'N', price: 1 }]);
+    });
+  });
+
+  describe('key', () => {
+    it('行のkeyは並べ替えても行と一緒に移動する', () => {
+      const { result } = renderFieldArray();
+      const [a, b, c] = result.current.items.fields.map((field) => field.key);
+
+      expect(new Set([a, b, c]).size).toBe(3);
+
+      act(() => {
+        result.current.items.move(2, 0);
+      });
+
+      expect(result.current.items.fields.map((field) => field.key)).toEqual([c, a, b]);
+    });
+
+    it('setValueで配列が差し替えられたらkeyを振り直す', () => {
+      const { result } = renderFieldArray();
+      const before = result.current.items.fields.map((field) => field.key);
+
+      act(() => {
+        result.current.form.setValue('items', [{ description: 'Q', price: 1 }]);
+      });
+
+      expect(result.current.items.fields).toHaveLength(1);
+      expect(before).not.toContain(result.current.items.fields[0].key);
+    });
+  });
+
+  describe('errors / touched', () => {
+    it('並べ替え・削除でerrorsとtouchedが行と一緒に移動する', () => {
+      const validators: Validators<InvoiceForm> = {
+        'items.0.description': () => 'Invalid A',
+      };
+      const { result } = renderFieldArray(validators);
+
+      act(() => {
+        result.current.form.register('items.0.description').onBlur();
+        result.current.form.register('items.2.price').onBlur();
+      });
+      expect(result.current.form.errors['items.0.description']).toBe('Invalid A');
+
+      act(() => {
+        result.current.items.move(0, 1);
+      });
+
+      expect(result.current.form.errors).toEqual({ 'items.1.description': 'Invalid A' });
+      expect(result.current.form.touched).toEqual({
+        'items.1.description': true,
+        'items.2.price': true,
+      });
+
+      act(() => {
+        result.current.items.remove(1);
+      });
+
+      expect(result.current.form.errors).toEqual({});
+      expect(result.current.form.touched).toEqual({ 'items.1.price': true });
+    });
+  });
+});
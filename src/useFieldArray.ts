@@ -0,0 +1,125 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { useWatch } from './useWatch';
+import type {
+  FieldArrayItem,
+  PathValue,
+  UseFieldArrayReturn,
+  UseFormReturn,
+  WritableArrayPath,
+} from './types';
+
+type Row<TItem> = {
+  item: TItem;
+  key: string;
+  from: number | null;
+};
+
+let keyCounter = 0;
+
+function createKey(): string {
+  keyCounter += 1;
+  return `field-${keyCounter}`;
+}
+
+function createRow<TItem>(item: TItem): Row<TItem> {
+  return { item, key: createKey(), from: null };
+}
+
+export function useFieldArray<
+  TValues extends Record<string, unknown>,
+  P extends WritableArrayPath<TValues>,
+  TOutput = TValues,
+>(form: UseFormReturn<TValues, TOutput>, name: P): UseFieldArrayReturn<TValues, P> {
+  type TItem = FieldArrayItem<TValues, P>;
+
+  const { updateFieldArray } = form;
+  // フォーム全体ではなく、この配列だけを購読する
+  const items = useWatch(form, name) as unknown as readonly TItem[];
+
+  // 行ごとのkeyは、このフックが作った配列と一緒に保持する。
+  // setValue や reset で配列が外から差し替えられた場合は振り直す
+  const stateRef = useRef<{ source: readonly TItem[]; keys: string[] } | null>(null);
+  if (stateRef.current?.source !== items) {
+    stateRef.current = { source: items, keys: items.map(() => createKey()) };
+  }
+  const { keys } = stateRef.current;
+
+  const update = useCallback(
+    (operation: (rows: Array<Row<TItem>>) => Array<Row<TItem>>) => {
+      const { source, keys: currentKeys } = stateRef.current!;
+      const rows = source.map((item, index) => ({ item, key: currentKeys[index], from: index }));
+      const nextRows = operation(rows);
+      const nextItems = nextRows.map((row) => row.item);
+
+      stateRef.current = { source: nextItems, keys: nextRows.map((row) => row.key) };
+      updateFieldArray(
+        name,
+        nextItems as unknown as PathValue<TValues, P>,
+        nextRows.map((row) => row.from)
+      );
+    },
+    [name, updateFieldArray]
+  );
+
+  const append = useCallback(
+    (item: TItem) => update((rows) => [...rows, createRow(item)]),
+    [update]
+  );
+
+  const prepend = useCallback(
+    (item: TItem) => update((rows) => [createRow(item), ...rows]),
+    [update]
+  );
+
+  const insert = useCallback(
+    (index: number, item: TItem) =>
+      update((rows) => [...rows.slice(0, index), createRow(item), ...rows.slice(index)]),
+    [update]
+  );
+
+  const remove = useCallback(
+    (index?: number | number[]) => {
+      // 引数なしは全行を削除する
+      if (index === undefined) {
+        update(() => []);
+        return;
+      }
+      const targets = Array.isArray(index) ? index : [index];
+      update((rows) => rows.filter((_, i) => !targets.includes(i)));
+    },
+    [update]
+  );
+
+  const move = useCallback(
+    (from: number, to: number) =>
+      update((rows) => {
+        const next = [...rows];
+        const [row] = next.splice(from, 1);
+        next.splice(to, 0, row);
+        return next;
+      }),
+    [update]
+  );
+
+  const swap = useCallback(
+    (indexA: number, indexB: number) =>
+      update((rows) => {
+        const next = [...rows];
+        [next[indexA], next[indexB]] = [next[indexB], next[indexA]];
+        return next;
+      }),
+    [update]
+  );
+
+  const replace = useCallback(
+    (nextItems: TItem[]) => update(() => nextItems.map((item) => createRow(item))),
+    [update]
+  );
+
+  const fields = useMemo(
+    () => items.map((value, index) => ({ key: keys[index], value })),
+    [items, keys]
+  );
+
+  return { fields, append, prepend, insert, remove, move, swap, replace };
+}
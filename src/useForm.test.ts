@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
-import { renderHook, act } from '@testing-library/react';
+import { createElement } from 'react';
+import { renderHook, act, render, fireEvent } from '@testing-library/react';
 import { useForm } from './useForm';
 import type { Validators } from './types';
 
@@ -122,7 +123,7 @@ describe('useForm', () => {
 
   // テストケース4: validateField
   describe('validateField', () => {
-    it('validatorがない場合はtrueを返す', () => {
+    it('validatorがない場合はtrueを返す', async () => {
       const { result } = renderHook(() =>
         useForm({
           defaultValues: { username: '' },
@@ -130,15 +131,15 @@ describe('useForm', () => {
       );
 
       let isValid: boolean;
-      act(() => {
-        isValid = result.current.validateField('username');
+      await act(async () => {
+        isValid = await result.current.validateField('username');
       });
 
       expect(isValid!).toBe(true);
       expect(result.current.errors).toEqual({});
     });
 
-    it('validatorがnullを返す場合はエラーなし', () => {
+    it('validatorがnullを返す場合はエラーなし', async () => {
       const validators: Validators<{ username: string }> = {
         username: (value) => (value.length > 0 ? null : 'Required'),
       };
@@ -151,15 +152,15 @@ describe('useForm', () => {
       );
 
       let isValid: boolean;
-      act(() => {
-        isValid = result.current.validateField('username');
+      await act(async () => {
+        isValid = await result.current.validateField('username');
       });
 
       expect(isValid!).toBe(true);
       expect(result.current.errors.username).toBeUndefined();
     });
 
-    it('validatorがstringを返す場合はエラー設定', () => {
+    it('validatorがstringを返す場合はエラー設定', async () => {
       const validators: Validators<{ username: string }> = {
         username: (value) => (value.length > 0 ? null : 'Required'),
       };
@@ -172,15 +173,15 @@ describe('useForm', () => {
       );
 
       let isValid: boolean;
-      act(() => {
-        isValid = result.current.validateField('username');
+      await act(async () => {
+        isValid = await result.current.validateField('username');
       });
 
       expect(isValid!).toBe(false);
       expect(result.current.errors.username).toBe('Required');
     });
 
-    it('validatorはvaluesも受け取れる（相互依存チェック）', () => {
+    it('validatorはvaluesも受け取れる（相互依存チェック）', async () => {
       const validators: Validators<{ password: string; confirm: string }> = {
         confirm: (value, values) =>
           value === values.password ? null : 'Passwords must match',
@@ -194,8 +195,8 @@ describe('useForm', () => {
       );
 
       let isValid: boolean;
-      act(() => {
-        isValid = result.current.validateField('confirm');
+      await act(async () => {
+        isValid = await result.current.validateField('confirm');
       });
 
       expect(isValid!).toBe(false);
@@ -235,7 +236,7 @@ describe('useForm', () => {
 
   // テストケース5: validateAll
   describe('validateAll', () => {
-    it('すべてのフィールドをバリデーションする', () => {
+    it('すべてのフィールドをバリデーションする', async () => {
       const validators: Validators<{ username: string; email: string }> = {
         username: (value) => (value.length > 0 ? null : 'Required'),
         email: (value) => (value.includes('@') ? null : 'Invalid email'),
@@ -249,8 +250,8 @@ describe('useForm', () => {
       );
 
       let isValid: boolean;
-      act(() => {
-        isValid = result.current.validateAll();
+      await act(async () => {
+        isValid = await result.current.validateAll();
       });
 
       expect(isValid!).toBe(false);
@@ -260,7 +261,7 @@ describe('useForm', () => {
       });
     });
 
-    it('すべてのフィールドが有効な場合はtrueを返す', () => {
+    it('すべてのフィールドが有効な場合はtrueを返す', async () => {
       const validators: Validators<{ username: string; email: string }> = {
         username: (value) => (value.length > 0 ? null : 'Required'),
         email: (value) => (value.includes('@') ? null : 'Invalid email'),
@@ -274,15 +275,15 @@ describe('useForm', () => {
       );
 
       let isValid: boolean;
-      act(() => {
-        isValid = result.current.validateAll();
+      await act(async () => {
+        isValid = await result.current.validateAll();
       });
 
       expect(isValid!).toBe(true);
       expect(result.current.errors).toEqual({});
     });
 
-    it('validatorsがない場合はtrueを返す', () => {
+    it('validatorsがない場合はtrueを返す', async () => {
       const { result } = renderHook(() =>
         useForm({
           defaultValues: { username: '', email: '' },
@@ -290,15 +291,15 @@ describe('useForm', () => {
       );
 
       let isValid: boolean;
-      act(() => {
-        isValid = result.current.validateAll();
+      await act(async () => {
+        isValid = await result.current.validateAll();
       });
 
       expect(isValid!).toBe(true);
       expect(result.current.errors).toEqual({});
     });
 
-    it('一部のフィールドのみバリデータがある場合', () => {
+    it('一部のフィールドのみバリデータがある場合', async () => {
       const validators: Validators<{ username: string; age: number }> = {
         username: (value) => (value.length > 0 ? null : 'Required'),
         // ageにはバリデータなし
@@ -312,8 +313,8 @@ describe('useForm', () => {
       );
 
       let isValid: boolean;
-      act(() => {
-        isValid = result.current.validateAll();
+      await act(async () => {
+        isValid = await result.current.validateAll();
       });
 
       expect(isValid!).toBe(false);
@@ -325,7 +326,7 @@ describe('useForm', () => {
 
   // テストケース6: handleSubmit
   describe('handleSubmit', () => {
-    it('バリデーション成功時にonValidが呼ばれる', () => {
+    it('バリデーション成功時にonValidが呼ばれる', async () => {
       const validators: Validators<{ username: string }> = {
         username: (value) => (value.length > 0 ? null : 'Required'),
       };
@@ -340,15 +341,15 @@ describe('useForm', () => {
       const onValid = vi.fn();
       const submitHandler = result.current.handleSubmit(onValid);
 
-      act(() => {
-        submitHandler();
+      await act(async () => {
+        await submitHandler();
       });
 
       expect(onValid).toHaveBeenCalledWith({ username: 'john' });
       expect(onValid).toHaveBeenCalledTimes(1);
     });
 
-    it('バリデーション失敗時にonValidが呼ばれない', () => {
+    it('バリデーション失敗時にonValidが呼ばれない', async () => {
       const validators: Validators<{ username: string }> = {
         username: (value) => (value.length > 0 ? null : 'Required'),
       };
@@ -363,15 +364,15 @@ describe('useForm', () => {
       const onValid = vi.fn();
       const submitHandler = result.current.handleSubmit(onValid);
 
-      act(() => {
-        submitHandler();
+      await act(async () => {
+        await submitHandler();
       });
 
       expect(onValid).not.toHaveBeenCalled();
       expect(result.current.errors.username).toBe('Required');
     });
 
-    it('preventDefaultを呼ぶ（フォームイベント対応）', () => {
+    it('preventDefaultを呼ぶ（フォームイベント対応）', async () => {
       const { result } = renderHook(() =>
         useForm({
           defaultValues: { username: 'john' },
@@ -385,14 +386,14 @@ describe('useForm', () => {
         preventDefault: vi.fn(),
       };
 
-      act(() => {
-        submitHandler(mockEvent);
+      await act(async () => {
+        await submitHandler(mockEvent);
       });
 
       expect(mockEvent.preventDefault).toHaveBeenCalled();
     });
 
-    it('preventDefaultがないイベントでもエラーにならない', () => {
+    it('preventDefaultがないイベントでもエラーにならない', async () => {
       const { result } = renderHook(() =>
         useForm({
           defaultValues: { username: 'john' },
@@ -402,11 +403,11 @@ describe('useForm', () => {
       const onValid = vi.fn();
       const submitHandler = result.current.handleSubmit(onValid);
 
-      expect(() => {
-        act(() => {
-          submitHandler({});
-        });
-      }).not.toThrow();
+      await expect(
+        act(async () => {
+          await submitHandler({});
+        })
+      ).resolves.not.toThrow();
     });
   });
 
@@ -478,6 +479,388 @@ describe('useForm', () => {
     });
   });
 
+  // テストケース8: 非同期バリデーション
+  describe('非同期バリデーション', () => {
+    it('Promiseを返すvalidatorをawaitしてエラーを設定する', async () => {
+      const validators: Validators<{ username: string }> = {
+        username: async (value) => (value === 'taken' ? 'Already taken' : null),
+      };
+
+      const { result } = renderHook(() =>
+        useForm({
+          defaultValues: { username: 'taken' },
+          validators,
+        })
+      );
+
+      let isValid: boolean;
+      await act(async () => {
+        isValid = await result.current.validateField('username');
+      });
+
+      expect(isValid!).toBe(false);
+      expect(result.current.errors.username).toBe('Already taken');
+    });
+
+    it('実行中はisValidatingがtrueになる', async () => {
+      let resolve!: (result: string | null) => void;
+      const validators: Validators<{ username: string }> = {
+        username: () => new Promise((r) => (resolve = r)),
+      };
+
+      const { result } = renderHook(() =>
+        useForm({
+          defaultValues: { username: '' },
+          validators,
+        })
+      );
+
+      let pending: Promise<boolean>;
+      act(() => {
+        pending = result.current.validateField('username');
+      });
+      expect(result.current.isValidating.username).toBe(true);
+
+      await act(async () => {
+        resolve(null);
+        await pending;
+      });
+      expect(result.current.isValidating).toEqual({});
+    });
+
+    it('新しい実行が始まると古い結果は無視され、signalがabortされる', async () => {
+      const resolvers: Array<(result: string | null) => void> = [];
+      const signals: AbortSignal[] = [];
+      const validators: Validators<{ username: string }> = {
+        username: (_value, _values, { signal }) => {
+          signals.push(signal);
+          return new Promise((r) => resolvers.push(r));
+        },
+      };
+
+      const { result } = renderHook(() =>
+        useForm({
+          defaultValues: { username: '' },
+          validators,
+        })
+      );
+
+      let first: Promise<boolean>;
+      let second: Promise<boolean>;
+      act(() => {
+        first = result.current.validateField('username');
+        second = result.current.validateField('username');
+      });
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[1].aborted).toBe(false);
+
+      await act(async () => {
+        resolvers[1](null);
+        await second;
+        resolvers[0]('Stale error');
+        await first;
+      });
+
+      expect(result.current.errors.username).toBeUndefined();
+      expect(result.current.isValidating).toEqual({});
+    });
+
+    it('validateAllは非同期validatorの結果をまとめて反映する', async () => {
+      const validators: Validators<{ username: string; email: string }> = {
+        username: async () => 'Already taken',
+        email: (value) => (value.includes('@') ? null : 'Invalid email'),
+      };
+
+      const { result } = renderHook(() =>
+        useForm({
+          defaultValues: { username: 'john', email: 'invalid' },
+          validators,
+        })
+      );
+
+      let isValid: boolean;
+      await act(async () => {
+        isValid = await result.current.validateAll();
+      });
+
+      expect(isValid!).toBe(false);
+      expect(result.current.errors).toEqual({
+        username: 'Already taken',
+        email: 'Invalid email',
+      });
+    });
+
+    it('非同期のonValidが終わるまでisSubmittingがtrueになる', async () => {
+      let finish!: () => void;
+      const onValid = vi.fn(() => new Promise<void>((r) => (finish = r)));
+
+      const { result } = renderHook(() =>
+        useForm({
+          defaultValues: { username: 'john' },
+        })
+      );
+
+      expect(result.current.isSubmitting).toBe(false);
+
+      let pending: Promise<void>;
+      await act(async () => {
+        pending = result.current.handleSubmit(onValid)();
+      });
+      expect(onValid).toHaveBeenCalledWith({ username: 'john' });
+      expect(result.current.isSubmitting).toBe(true);
+
+      await act(async () => {
+        finish();
+        await pending;
+      });
+      expect(result.current.isSubmitting).toBe(false);
+    });
+  });
+
+  // テストケース9: ネストしたパス
+  describe('ネストしたパス', () => {
+    type ProfileForm = {
+      name: string;
+      user: { address: { city: string; zip: string } };
+    };
+
+    const defaultValues: ProfileForm = {
+      name: 'john',
+      user: { address: { city: '', zip: '100-0001' } },
+    };
+
+    it('registerでネストした値を取得・更新できる', () => {
+      const { result } = renderHook(() => useForm<ProfileForm>({ defaultValues }));
+
+      const field = result.current.register('user.address.city');
+      expect(field.name).toBe('user.address.city');
+      expect(field.value).toBe('');
+
+      act(() => {
+        field.onChange('Tokyo');
+      });
+
+      expect(result.current.values.user.address).toEqual({ city: 'Tokyo', zip: '100-0001' });
+      expect(result.current.values.name).toBe('john');
+      // 更新していないオブジェクトは参照が変わらない
+      expect(defaultValues.user.address.city).toBe('');
+    });
+
+    it('setValueで途中のオブジェクトごと置き換えられる', () => {
+      const { result } = renderHook(() => useForm<ProfileForm>({ defaultValues }));
+
+      act(() => {
+        result.current.setValue('user.address', { city: 'Osaka', zip: '530-0001' });
+      });
+
+      expect(result.current.register('user.address.zip').value).toBe('530-0001');
+    });
+
+    it('errorsとtouchedはパスをキーに持つ', async () => {
+      const validators: Validators<ProfileForm> = {
+        'user.address.city': (value) => (value ? null : 'City is required'),
+      };
+
+      const { result } = renderHook(() => useForm<ProfileForm>({ defaultValues, validators }));
+
+      act(() => {
+        result.current.register('user.address.city').onBlur();
+      });
+
+      expect(result.current.touched['user.address.city']).toBe(true);
+      expect(result.current.errors['user.address.city']).toBe('City is required');
+
+      let isValid: boolean;
+      await act(async () => {
+        isValid = await result.current.validateAll();
+      });
+
+      expect(isValid!).toBe(false);
+      expect(result.current.errors).toEqual({ 'user.address.city': 'City is required' });
+    });
+  });
+
+  // テストケース10: 再レンダー
+  describe('再レンダー', () => {
+    it('読んでいない状態が変わっても再レンダーしない', () => {
+      let renders = 0;
+      const { result } = renderHook(() => {
+        renders += 1;
+        const form = useForm({ defaultValues: { username: '' } });
+        // errors だけを読む
+        void form.errors;
+        return form;
+      });
+
+      act(() => {
+        result.current.register('username').onChange('john');
+      });
+      expect(renders).toBe(1);
+
+      // 読んだ時点で最新の値が返る
+      expect(result.current.values.username).toBe('john');
+    });
+
+    it('レンダー中にregisterしたフィールドは入力のたびに再レンダーする', () => {
+      function UsernameInput() {
+        const form = useForm({ defaultValues: { username: '' } });
+        const field = form.register('username');
+        return createElement('input', {
+          'aria-label': 'username',
+          value: field.value,
+          onChange: (e: { target: { value: string } }) => field.onChange(e.target.value),
+        });
+      }
+
+      const { getByLabelText } = render(createElement(UsernameInput));
+      const input = getByLabelText('username') as HTMLInputElement;
+
+      fireEvent.change(input, { target: { value: 'john' } });
+      expect(input.value).toBe('john');
+    });
+  });
+
+  describe('registerInput', () => {
+    function AgeForm({ onAge }: { onAge?: (age: number) => void }) {
+      const form = useForm({ defaultValues: { age: 1 } });
+      onAge?.(form.store.getState().values.age);
+      return createElement('input', {
+        'aria-label': 'age',
+        ...form.registerInput('age', { as: 'number' }),
+      });
+    }
+
+    it('parseできない入力も入力要素に表示されたままになる', () => {
+      const { getByLabelText } = render(createElement(AgeForm));
+      const input = getByLabelText('age') as HTMLInputElement;
+
+      fireEvent.change(input, { target: { value: 'abc' } });
+      expect(input.value).toBe('abc');
+    });
+
+    it('整形すると変わる入力は入力された文字列のまま表示する', () => {
+      const onAge = vi.fn();
+      const { getByLabelText } = render(createElement(AgeForm, { onAge }));
+      const input = getByLabelText('age') as HTMLInputElement;
+
+      fireEvent.change(input, { target: { value: '1.' } });
+      expect(input.value).toBe('1.');
+
+      fireEvent.change(input, { target: { value: '1.5' } });
+      expect(input.value).toBe('1.5');
+      expect(onAge).toHaveBeenLastCalledWith(1.5);
+    });
+  });
+
+  describe('フォーカス', () => {
+    it('送信に失敗したら最初のエラーの入力要素にフォーカスする', async () => {
+      function SignupForm() {
+        const form = useForm({
+          defaultValues: { name: 'John', email: '' },
+          validators: { email: (value) => (value ? null : 'Required') },
+        });
+        return createElement(
+          'form',
+          { onSubmit: form.handleSubmit(vi.fn()) },
+          createElement('input', { 'aria-label': 'name', ...form.registerInput('name') }),
+          createElement('input', { 'aria-label': 'email', ...form.registerInput('email') }),
+          createElement('button', { type: 'submit' }, 'Submit')
+        );
+      }
+      const { getByLabelText, getByText } = render(createElement(SignupForm));
+
+      fireEvent.click(getByText('Submit'));
+
+      await vi.waitFor(() => expect(document.activeElement).toBe(getByLabelText('email')));
+    });
+  });
+
+  describe('persist', () => {
+    it('マウント時にlocalStorageの下書きを復元する', async () => {
+      localStorage.setItem(
+        'profile-draft',
+        JSON.stringify({ version: 0, values: { username: 'john' } })
+      );
+
+      const { result } = renderHook(() =>
+        useForm({
+          defaultValues: { username: '', age: 0 },
+          persist: { key: 'profile-draft' },
+        })
+      );
+
+      // 下書きの読み込みを act の中で待つ
+      await act(async () => {});
+      expect(result.current.values).toEqual({ username: 'john', age: 0 });
+      expect(result.current.isDirty).toBe(true);
+
+      act(() => {
+        result.current.reset();
+      });
+      expect(localStorage.getItem('profile-draft')).toBeNull();
+    });
+
+    it('アンマウントしたらdebounce中の下書きはすぐに保存し、URLのクエリは書き込まない', () => {
+      vi.useFakeTimers();
+      window.history.replaceState(null, '', '/profile');
+      const { result, unmount } = renderHook(() =>
+        useForm({
+          defaultValues: { username: '', age: 0 },
+          persist: { key: 'unmount-draft' },
+          syncWithSearchParams: { codecs: { age: { as: 'number' } } },
+        })
+      );
+
+      act(() => {
+        result.current.setValue('username', 'john');
+      });
+      unmount();
+      expect(JSON.parse(localStorage.getItem('unmount-draft') ?? 'null')).toEqual({
+        version: 0,
+        values: { username: 'john', age: 0 },
+      });
+
+      // 別の画面に移ったあとで、前のフォームのクエリが書き込まれないこと
+      window.history.replaceState(null, '', '/next');
+      vi.advanceTimersByTime(300);
+      expect(window.location.pathname + window.location.search).toBe('/next');
+      vi.useRealTimers();
+      window.history.replaceState(null, '', '/');
+    });
+  });
+
+  describe('非同期のdefaultValues', () => {
+    it('マウント時に読み込み、終わるまでisLoadingがtrueになる', async () => {
+      const { result } = renderHook(() =>
+        useForm({ defaultValues: async () => ({ username: 'john', age: 20 }) })
+      );
+
+      expect(result.current.isLoading).toBe(true);
+
+      await act(async () => {});
+      expect(result.current.isLoading).toBe(false);
+      expect(result.current.values).toEqual({ username: 'john', age: 20 });
+
+      act(() => {
+        result.current.setValue('age', 30);
+        result.current.resetField('age');
+      });
+      expect(result.current.values.age).toBe(20);
+      expect(result.current.isDirty).toBe(false);
+    });
+
+    it('読み込みに失敗したらloadErrorで受け取れる', async () => {
+      const failure = new Error('Not found');
+      const { result } = renderHook(() =>
+        useForm<{ username: string }>({ defaultValues: () => Promise.reject(failure) })
+      );
+
+      await act(async () => {});
+      expect(result.current.isLoading).toBe(false);
+      expect(result.current.loadError).toBe(failure);
+    });
+  });
+
   // エッジケースのテスト
   describe('エッジケース', () => {
     it('空のdefaultValuesでも動作する', () => {
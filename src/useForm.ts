@@ -1,116 +1,136 @@
-import { useCallback, useState, useMemo } from 'react';
-import type { Errors, UseFormOptions, UseFormReturn } from './types';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createFormStore } from './createFormStore';
+import { useStoreSelector } from './useStoreSelector';
+import type { InferSchemaInput, InferSchemaOutput, StandardSchemaV1 } from './standardSchema';
+import type {
+  FormState,
+  FormStore,
+  UseFormOptions,
+  UseFormReturn,
+  UseFormSchemaOptions,
+} from './types';
 
-export function useForm<TValues extends Record<string, unknown>>(
-  options: UseFormOptions<TValues>
-): UseFormReturn<TValues> {
-  const { defaultValues, validators } = options;
+const selectState = <TState>(state: TState) => state;
 
-  const [values, setValues] = useState<TValues>(defaultValues);
-  const [errors, setErrors] = useState<Errors<TValues>>({});
-  const [touched, setTouched] = useState<Partial<Record<keyof TValues, boolean>>>({});
+// レンダー中のコンポーネント（useForm / useFormContext ごと）。register を読んだものとして扱う相手
+let renderingOwner: object | null = null;
 
-  const validateField = useCallback(
-    <K extends keyof TValues>(name: K): boolean => {
-      const validate = validators?.[name];
-      if (!validate) {
-        setErrors((prev) => {
-          if (!(name in prev)) return prev;
-          const next = { ...prev };
-          delete next[name];
-          return next;
-        });
-        return true;
-      }
+const stateKeys: Array<keyof FormState<Record<string, unknown>>> = [
+  'values',
+  'errors',
+  'errorDetails',
+  'touched',
+  'dirtyFields',
+  'isDirty',
+  'isValidating',
+  'inputDrafts',
+  'isLoading',
+  'loadError',
+  'isSubmitting',
+  'submitCount',
+  'isSubmitted',
+  'isSubmitSuccessful',
+  'submitError',
+  'canUndo',
+  'canRedo',
+];
 
-      const message = validate(values[name], values);
-      setErrors((prev) => {
-        const next = { ...prev };
-        if (message) next[name] = message;
-        else delete next[name];
-        return next;
-      });
-      return message == null;
-    },
-    [validators, values]
-  );
+export function useForm<TSchema extends StandardSchemaV1<Record<string, unknown>, unknown>>(
+  options: UseFormSchemaOptions<TSchema>
+): UseFormReturn<InferSchemaInput<TSchema>, InferSchemaOutput<TSchema>>;
+export function useForm<TValues extends Record<string, unknown>, TOutput = TValues>(
+  options: UseFormOptions<TValues, TOutput>
+): UseFormReturn<TValues, TOutput>;
+export function useForm<TValues extends Record<string, unknown>, TOutput = TValues>(
+  options: UseFormOptions<TValues, TOutput>
+): UseFormReturn<TValues, TOutput> {
+  const [store] = useState(() => createFormStore(options));
 
-  const validateAll = useCallback((): boolean => {
-    if (!validators) {
-      setErrors({});
-      return true;
-    }
+  // レンダーごとに渡される validators などのクロージャを最新に保つ
+  store.setOptions(options);
 
-    let ok = true;
-    const nextErrors: Errors<TValues> = {};
+  useEffect(() => {
+    // 非同期の defaultValues の失敗は loadError で受け取る
+    store.hydrate().catch(() => {});
+    return store.dispose;
+  }, [store]);
 
-    (Object.keys(values) as Array<keyof TValues>).forEach((key) => {
-      const validate = validators[key];
-      if (!validate) return;
+  return useTrackedForm(store);
+}
 
-      const message = validate(values[key], values);
-      if (message) {
-        ok = false;
-        nextErrors[key] = message;
-      }
-    });
+/**
+ * store の状態のうち、このコンポーネントが読んだものだけを購読する form を返す
+ * （useForm と useFormContext で使う）
+ */
+export function useTrackedForm<TValues extends Record<string, unknown>, TOutput = TValues>(
+  store: FormStore<TValues, TOutput>
+): UseFormReturn<TValues, TOutput> {
+  // 実際に読まれた状態だけを購読する。
+  // values を読まないコンポーネントは、入力のたびに再レンダーされない
+  const usedRef = useRef(new Set<keyof FormState<TValues>>());
+  const isUsedStateEqual = useCallback(
+    (a: FormState<TValues>, b: FormState<TValues>) =>
+      Array.from(usedRef.current).every((key) => Object.is(a[key], b[key])),
+    []
+  );
+  const snapshot = useStoreSelector(store, selectState, isUsedStateEqual);
 
-    setErrors(nextErrors);
-    return ok;
-  }, [validators, values]);
+  // このコンポーネントのレンダー中かどうか
+  // （イベントハンドラや、useFormContext を使う子孫のレンダーで呼ばれた register は購読に影響させない）
+  const [owner] = useState(() => ({}));
+  renderingOwner = owner;
+  useEffect(() => {
+    if (renderingOwner === owner) renderingOwner = null;
+  });
 
-  const setValue = useCallback(<K extends keyof TValues>(name: K, value: TValues[K]) => {
-    setValues((prev) => ({ ...prev, [name]: value }));
-  }, []);
+  // register / registerInput の value・disabled は状態から作るので、レンダー中に呼ばれたら読んだものとして扱う
+  const [registers] = useState(() => {
+    const track = <TFn extends (...args: never[]) => unknown>(
+      fn: TFn,
+      keys: Array<keyof FormState<TValues>>
+    ) =>
+      ((...args: Parameters<TFn>) => {
+        if (renderingOwner === owner) keys.forEach((key) => usedRef.current.add(key));
+        return fn(...args);
+      }) as unknown as TFn;
 
-  const register = useCallback(
-    <K extends keyof TValues>(name: K) => {
-      return {
-        name,
-        value: values[name],
-        onChange: (value: TValues[K]) => setValue(name, value),
-        onBlur: () => {
-          setTouched((prev) => ({ ...prev, [name]: true }));
-          validateField(name);
-        },
-      } as const;
-    },
-    [setValue, validateField, values]
-  );
+    return {
+      register: track(store.register, ['values']),
+      registerInput: track(store.registerInput, ['values', 'inputDrafts']),
+    };
+  });
 
-  const reset = useCallback(
-    (nextValues?: TValues) => {
-      setValues(nextValues ?? defaultValues);
-      setErrors({});
-      setTouched({});
-    },
-    [defaultValues]
-  );
-
-  const handleSubmit = useCallback(
-    (onValid: (v: TValues) => void) => {
-      return (e?: unknown) => {
-        // React form submitイベントが来ても依存しない（UIなし方針）
-        if (e && typeof (e as { preventDefault?: () => void }).preventDefault === 'function') {
-          (e as { preventDefault: () => void }).preventDefault();
-        }
+  return useMemo(() => {
+    const form = {
+      register: registers.register,
+      registerInput: registers.registerInput,
+      setValue: store.setValue,
+      setFocus: store.setFocus,
+      validateField: store.validateField,
+      validateAll: store.validateAll,
+      setError: store.setError,
+      clearErrors: store.clearErrors,
+      handleSubmit: store.handleSubmit,
+      reset: store.reset,
+      resetField: store.resetField,
+      undo: store.undo,
+      redo: store.redo,
+      getDirtyValues: store.getDirtyValues,
+      updateFieldArray: store.updateFieldArray,
+      store,
+    } as UseFormReturn<TValues, TOutput>;
 
-        const ok = validateAll();
-        if (ok) onValid(values);
-      };
-    },
-    [validateAll, values]
-  );
+    stateKeys.forEach((key) => {
+      Object.defineProperty(form, key, {
+        enumerable: true,
+        get: () => {
+          usedRef.current.add(key);
+          return store.getState()[key];
+        },
+      });
+    });
 
-  return {
-    values,
-    errors,
-    touched,
-    register,
-    setValue,
-    validateField,
-    validateAll,
-    handleSubmit,
-    reset,
-  };
+    return form;
+    // snapshot が変わったら新しいオブジェクトを返し、利用側のメモ化を更新させる
+  }, [snapshot, store, registers]);
 }
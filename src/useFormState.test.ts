@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useForm } from './useForm';
+import { useFormState } from './useFormState';
+import type { Validators } from './types';
+
+type SignupForm = { name: string; email: string };
+
+const validators: Validators<SignupForm> = {
+  name: (value) => (value ? null : 'Name is required'),
+  email: (value) => (value.includes('@') ? null : 'Invalid email'),
+};
+
+function renderForm() {
+  return renderHook(() => useForm<SignupForm>({ defaultValues: { name: '', email: '' }, validators }))
+    .result.current;
+}
+
+describe('useFormState', () => {
+  it('trueを指定した状態は全体を、配列を指定した状態は指定したフィールドのみ返す', () => {
+    const form = renderForm();
+    const { result } = renderHook(() => useFormState(form, { errors: true, touched: ['email'] }));
+
+    act(() => {
+      form.register('name').onBlur();
+      form.register('email').onBlur();
+    });
+
+    expect(result.current).toEqual({
+      errors: { name: 'Name is required', email: 'Invalid email' },
+      touched: { email: true },
+    });
+  });
+
+  it('購読していない状態の変化では再レンダーしない', () => {
+    const form = renderForm();
+
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders += 1;
+      return useFormState(form, { touched: ['email'] });
+    });
+
+    act(() => {
+      form.setValue('name', 'john');
+      form.register('name').onBlur();
+    });
+    expect(renders).toBe(1);
+
+    act(() => {
+      form.register('email').onBlur();
+    });
+    expect(renders).toBe(2);
+    expect(result.current.touched).toEqual({ email: true });
+  });
+});
@@ -0,0 +1,59 @@
+import { useCallback } from 'react';
+import { shallowEqual, useStoreSelector } from './useStoreSelector';
+import type {
+  FormState,
+  FormStateSubscription,
+  SubscribedFormState,
+  UseFormReturn,
+} from './types';
+
+// 状態ごと（errors, touched...）に浅い比較をする
+function sliceEqual(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length && keys.every((key) => shallowEqual(a[key], b[key]))
+  );
+}
+
+/**
+ * 購読した状態が変わったときだけ再レンダーする
+ * 例: useFormState(form, { errors: true, touched: ['email'] })
+ */
+export function useFormState<
+  TValues extends Record<string, unknown>,
+  const TSubscription extends FormStateSubscription<TValues>,
+  TOutput = TValues,
+>(
+  form: UseFormReturn<TValues, TOutput>,
+  subscription: TSubscription
+): SubscribedFormState<TValues, TSubscription> {
+  // オブジェクトリテラルがレンダーごとに作り直されても同じ購読として扱う
+  const key = JSON.stringify(subscription);
+
+  const selector = useCallback(
+    (state: FormState<TValues>) => {
+      const selected: Record<string, unknown> = {};
+      (Object.keys(subscription) as Array<keyof FormState<TValues>>).forEach((slice) => {
+        const paths = subscription[slice as keyof TSubscription];
+        if (!Array.isArray(paths)) {
+          selected[slice] = state[slice];
+          return;
+        }
+
+        const source = state[slice] as Record<string, unknown>;
+        const picked: Record<string, unknown> = {};
+        paths.forEach((path: string) => {
+          if (path in source) picked[path] = source[path];
+        });
+        selected[slice] = picked;
+      });
+      return selected;
+    },
+    [key]
+  );
+
+  return useStoreSelector(form.store, selector, sliceEqual) as SubscribedFormState<
+    TValues,
+    TSubscription
+  >;
+}
@@ -0,0 +1,45 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import type { FormState, FormStore } from './types';
+
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      Object.is((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+/**
+ * ストアの一部だけを購読する。選択結果が isEqual で等しい間は再レンダーしない
+ */
+export function useStoreSelector<TValues extends Record<string, unknown>, TSelected>(
+  store: Pick<FormStore<TValues>, 'getState' | 'subscribe'>,
+  selector: (state: FormState<TValues>) => TSelected,
+  isEqual: (a: TSelected, b: TSelected) => boolean = shallowEqual
+): TSelected {
+  const cacheRef = useRef<{
+    state: FormState<TValues>;
+    selector: (state: FormState<TValues>) => TSelected;
+    selected: TSelected;
+  } | null>(null);
+
+  const getSnapshot = useCallback(() => {
+    const state = store.getState();
+    const cache = cacheRef.current;
+    if (cache && cache.state === state && cache.selector === selector) return cache.selected;
+
+    const selected = selector(state);
+    // 等しければ前回の参照を返して useSyncExternalStore に変化なしと判定させる
+    const next = cache && isEqual(cache.selected, selected) ? cache.selected : selected;
+    cacheRef.current = { state, selector, selected: next };
+    return next;
+  }, [isEqual, selector, store]);
+
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useForm } from './useForm';
+import { useWatch } from './useWatch';
+
+type SettingsForm = {
+  name: string;
+  email: string;
+  profile: { bio: string };
+};
+
+const defaultValues: SettingsForm = { name: '', email: '', profile: { bio: '' } };
+
+describe('useWatch', () => {
+  it('指定したフィールドの値を返し、変更に追従する', () => {
+    const { result } = renderHook(() => {
+      const form = useForm<SettingsForm>({ defaultValues });
+      return { form, bio: useWatch(form, 'profile.bio') };
+    });
+
+    expect(result.current.bio).toBe('');
+
+    act(() => {
+      result.current.form.setValue('profile.bio', 'hello');
+    });
+
+    expect(result.current.bio).toBe('hello');
+  });
+
+  it('配列で指定すると値をタプルで返す', () => {
+    const { result } = renderHook(() => {
+      const form = useForm<SettingsForm>({ defaultValues });
+      return { form, watched: useWatch(form, ['name', 'email']) };
+    });
+
+    act(() => {
+      result.current.form.setValue('email', 'john@example.com');
+    });
+
+    expect(result.current.watched).toEqual(['', 'john@example.com']);
+  });
+
+  it('購読していないフィールドの変更では再レンダーしない', () => {
+    const { result: formResult } = renderHook(() => useForm<SettingsForm>({ defaultValues }));
+    const form = formResult.current;
+
+    let renders = 0;
+    const { result } = renderHook(() => {
+      renders += 1;
+      return useWatch(form, ['name']);
+    });
+    expect(renders).toBe(1);
+
+    act(() => {
+      form.setValue('email', 'john@example.com');
+      form.setValue('profile.bio', 'hello');
+    });
+    expect(renders).toBe(1);
+
+    act(() => {
+      form.setValue('name', 'john');
+    });
+    expect(renders).toBe(2);
+    expect(result.current).toEqual(['john']);
+  });
+});
@@ -0,0 +1,35 @@
+import { useCallback } from 'react';
+import { getByPath } from './path';
+import { useStoreSelector } from './useStoreSelector';
+import type { FormState, Path, PathValue, UseFormReturn, WatchedValues } from './types';
+
+/**
+ * 指定したフィールドの値だけを購読する。他のフィールドが変わっても再レンダーしない
+ */
+export function useWatch<
+  TValues extends Record<string, unknown>,
+  P extends Path<TValues>,
+  TOutput = TValues,
+>(form: UseFormReturn<TValues, TOutput>, name: P): PathValue<TValues, P>;
+export function useWatch<
+  TValues extends Record<string, unknown>,
+  const TPaths extends ReadonlyArray<Path<TValues>>,
+  TOutput = TValues,
+>(form: UseFormReturn<TValues, TOutput>, names: TPaths): WatchedValues<TValues, TPaths>;
+export function useWatch<TValues extends Record<string, unknown>, TOutput>(
+  form: UseFormReturn<TValues, TOutput>,
+  name: Path<TValues> | ReadonlyArray<Path<TValues>>
+): unknown {
+  // 配列がレンダーごとに作り直されても同じ購読として扱う
+  const key = typeof name === 'string' ? name : name.join('\n');
+
+  const selector = useCallback(
+    (state: FormState<TValues>) =>
+      typeof name === 'string'
+        ? getByPath(state.values, name)
+        : name.map((path) => getByPath(state.values, path)),
+    [key]
+  );
+
+  return useStoreSelector(form.store, selector);
+}
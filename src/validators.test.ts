@@ -0,0 +1,104 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createFormStore } from './createFormStore';
+import { compose, email, max, maxLength, min, minLength, pattern, required, when } from './validators';
+
+const context = { signal: new AbortController().signal };
+
+describe('validators', () => {
+  describe('ルール', () => {
+    it('requiredは空の値をエラーにする', () => {
+      const rule = required();
+
+      expect([null, undefined, '', [], false].map((value) => rule(value, {}, context))).toEqual(
+        Array(5).fill({ type: 'required' })
+      );
+      expect([0, 'a', ['a'], true].map((value) => rule(value, {}, context))).toEqual(
+        Array(4).fill(null)
+      );
+    });
+
+    it('minLength / maxLengthは文字列と配列の長さを見る', () => {
+      expect(minLength(3)('ab', {}, context)).toEqual({ type: 'minLength', params: { min: 3 } });
+      expect(minLength(2)(['a', 'b'], {}, context)).toBeNull();
+      expect(maxLength(1)(['a', 'b'], {}, context)).toEqual({
+        type: 'maxLength',
+        params: { max: 1 },
+      });
+    });
+
+    it('min / maxは数値の範囲を見て、未入力は通す', () => {
+      expect(min(18)(17, {}, context)).toEqual({ type: 'min', params: { min: 18 } });
+      expect(max(10, 'Too many')(11, {}, context)).toEqual({
+        type: 'max',
+        message: 'Too many',
+        params: { max: 10 },
+      });
+      expect(min(18)(null, {}, context)).toBeNull();
+    });
+
+    it('patternとemailは空文字を通す', () => {
+      const digits = pattern(/^\d+$/g);
+
+      // g フラグ付きでも2回目の判定が lastIndex に影響されない
+      expect(digits('123', {}, context)).toBeNull();
+      expect(digits('123', {}, context)).toBeNull();
+      expect(digits('12a', {}, context)).toEqual({
+        type: 'pattern',
+        params: { pattern: '^\\d+$' },
+      });
+      expect(email()('', {}, context)).toBeNull();
+      expect(email()('john@example', {}, context)).toEqual({ type: 'email' });
+      expect(email()('john@example.com', {}, context)).toBeNull();
+    });
+  });
+
+  describe('compose / when', () => {
+    it('composeは失敗したルールをすべて返す', () => {
+      const rule = compose(required(), minLength(8), pattern(/\d/));
+
+      expect(rule('abc', {}, context)).toEqual([
+        { type: 'minLength', params: { min: 8 } },
+        { type: 'pattern', params: { pattern: '\\d' } },
+      ]);
+      expect(rule('abcdefg1', {}, context)).toBeNull();
+    });
+
+    it('composeは非同期のルールを待つ', async () => {
+      const taken = async (value: string) => (value === 'admin' ? { type: 'taken' } : null);
+      const rule = compose(minLength(6), taken);
+
+      await expect(rule('admin', {}, context)).resolves.toEqual([
+        { type: 'minLength', params: { min: 6 } },
+        { type: 'taken' },
+      ]);
+    });
+
+    it('whenは条件を満たすときだけ検証する', () => {
+      const rule = when((values: { business: boolean }) => values.business, required());
+
+      expect(rule('', { business: false }, context)).toBeNull();
+      expect(rule('', { business: true }, context)).toEqual({ type: 'required' });
+    });
+  });
+
+  it('Validatorsにそのまま使え、既定の表示文字列が付く', async () => {
+    const store = createFormStore({
+      defaultValues: { email: '', password: 'abc', age: 16 },
+      validators: {
+        email: compose(required(), email()),
+        password: compose(required(), minLength(8)),
+        age: min(18),
+      },
+      messages: { min: 'You must be {min} or older' },
+    });
+
+    await store.validateAll();
+
+    expect(store.getState().errors).toEqual({
+      email: 'Required',
+      password: 'Must be at least 8 long',
+      age: 'You must be 18 or older',
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import type { Rule, ValidatorResult } from './types';
+
+export type { Rule } from './types';
+
+type Nullish = null | undefined;
+
+const isPromiseLike = (value: unknown): value is Promise<ValidatorResult> =>
+  typeof (value as { then?: unknown } | null)?.then === 'function';
+
+// message を指定したときだけ含める（省略すると messages オプションから組み立てる）
+const fail = (type: string, message?: string, params?: Record<string, unknown>) => ({
+  type,
+  ...(message !== undefined && { message }),
+  ...(params && { params }),
+});
+
+/**
+ * null / undefined / 空文字 / 空配列 / false（未チェックのチェックボックス）を未入力とみなす
+ * error type: 'required'
+ */
+export function required(message?: string): Rule<unknown> {
+  return (value) =>
+    value == null || value === '' || value === false || (Array.isArray(value) && !value.length)
+      ? fail('required', message)
+      : null;
+}
+
+/**
+ * 文字列の長さ・配列の要素数の下限。未入力は required に任せる
+ * error type: 'minLength'（params: { min }）
+ */
+export function minLength(
+  min: number,
+  message?: string
+): Rule<string | ReadonlyArray<unknown> | Nullish> {
+  return (value) =>
+    value != null && value.length < min ? fail('minLength', message, { min }) : null;
+}
+
+/**
+ * error type: 'maxLength'（params: { max }）
+ */
+export function maxLength(
+  max: number,
+  message?: string
+): Rule<string | ReadonlyArray<unknown> | Nullish> {
+  return (value) =>
+    value != null && value.length > max ? fail('maxLength', message, { max }) : null;
+}
+
+/**
+ * error type: 'pattern'（params: { pattern }）。空文字は required に任せる
+ */
+export function pattern(regex: RegExp, message?: string): Rule<string | Nullish> {
+  return (value) => {
+    if (!value) return null;
+    // g / y フラグ付きでも毎回先頭から判定する
+    regex.lastIndex = 0;
+    return regex.test(value) ? null : fail('pattern', message, { pattern: regex.source });
+  };
+}
+
+/**
+ * error type: 'min'（params: { min }）
+ */
+export function min(minimum: number, message?: string): Rule<number | Nullish> {
+  return (value) =>
+    value != null && value < minimum ? fail('min', message, { min: minimum }) : null;
+}
+
+/**
+ * error type: 'max'（params: { max }）
+ */
+export function max(maximum: number, message?: string): Rule<number | Nullish> {
+  return (value) =>
+    value != null && value > maximum ? fail('max', message, { max: maximum }) : null;
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * error type: 'email'。空文字は required に任せる
+ */
+export function email(message?: string): Rule<string | Nullish> {
+  return (value) => (!value || EMAIL.test(value) ? null : fail('email', message));
+}
+
+/**
+ * ルールをすべて実行し、失敗したものを順に返す（criteriaMode: 'all' なら全件がエラーに残る）
+ * どれかが非同期なら Promise を返す
+ */
+export function compose<TValue, TValues = unknown>(
+  ...rules: Array<Rule<TValue, TValues>>
+): Rule<TValue, TValues> {
+  return (value, values, context) => {
+    const results = rules.map((rule) => rule(value, values, context));
+    const collect = (settled: ValidatorResult[]) => {
+      const errors = settled.flatMap((result) =>
+        result == null || result === '' ? [] : Array.isArray(result) ? result : [result]
+      );
+      return errors.length ? errors : null;
+    };
+    return results.some(isPromiseLike)
+      ? Promise.all(results).then(collect)
+      : collect(results as ValidatorResult[]);
+  };
+}
+
+/**
+ * predicate が true のときだけ rule を実行する
+ */
+export function when<TValue, TValues = unknown>(
+  predicate: (values: TValues) => boolean,
+  rule: Rule<TValue, TValues>
+): Rule<TValue, TValues> {
+  return (value, values, context) => (predicate(values) ? rule(value, values, context) : null);
+}